@@ -1,7 +1,13 @@
 import { Socket } from "./Socket";
-import { Notification, Request, Response, createError, isResponse, ErrorCode, Error as RPCError, ErrorResponse } from "./common";
+import { Notification, Request, Response, createError, isResponse, isErrorObject, ErrorCode, Error as ErrorObject, ErrorResponse } from "./common";
 import { Data } from "isomorphic-ws";
 import EventEmitter = require("eventemitter3");
+import { JSONSchema, validate } from "./schema";
+import { Codec, JSONCodec } from "./codec";
+import { isAsyncIterable } from "./stream";
+import { LimitOptions, LimitViolation, TokenBucket, exceedsDepth } from "./limits";
+import { RPCError } from "./errors";
+import { createOpenRPCDocument, OpenRPCDocument, OpenRPCExample, OpenRPCInfo, DISCOVER_METHOD } from "./openrpc";
 
 export const enum VERSION_CHECK_MODE {
     STRICT,
@@ -17,60 +23,384 @@ export interface Options {
      */
     jsonrpcVersionCheck?: VERSION_CHECK_MODE;
 
+    /**
+     * How to process the calls in a batch.
+     * `"sequential"`: one by one in order. (default)
+     * `"parallel"`: all at once.
+     * number: at most N calls at once.
+     */
+    batchConcurrency?: "sequential" | "parallel" | number;
+
+    /**
+     * Process the requests and the notifications from a socket strictly in arrival order.
+     * The responses and the `$/` prefixed notifications (e.g. `$/cancelRequest`) are processed as soon as they arrive.
+     * If not set, each message is processed as soon as it arrives.
+     */
+    preserveMessageOrder?: boolean;
+
+    /**
+     * Enables the built-in `rpc.discover` method which returns the OpenRPC document.
+     * Pass the info object to describe the service.
+     */
+    discover?: boolean | OpenRPCInfo;
+
+    /**
+     * Streaming methods wait before the next chunk while the buffered bytes of the socket exceed this.
+     * (default: 1MiB)
+     */
+    streamHighWaterMark?: number;
+
+    /**
+     * Limits of the incoming messages and the method calls per socket.
+     * Protects from the misbehaving peer. (unlimited if not set)
+     */
+    limits?: LimitOptions;
+
+    /**
+     * Maps the error thrown by the method to the error of the response. e.g. `NotFoundError` of the application to `new RPCError(404, "Not found")`
+     * The error is converted as is if nothing is returned.
+     */
+    errorMapper?: (error: any, ctx: CallContext) => RPCError | ErrorObject | void;
+
+    /**
+     * Includes the stacks of the thrown errors in `data.stack` of the error responses. (for development)
+     */
+    debug?: boolean;
+
     /**
      * response handler
      */
     onResponse?: (response: Response) => void;
 }
 
-type MethodFunction<SOC extends Socket = Socket> = (socket: SOC, params: any) => Promise<any> | any;
+/**
+ * Name of the notification to cancel a request. (`{ id }` as params)
+ * This is an extension like the Language Server Protocol.
+ */
+export const CANCEL_REQUEST_METHOD = "$/cancelRequest";
+
+/**
+ * Name of the notification which carries a partial result of a request. (`{ id, value }` as params)
+ */
+export const PROGRESS_METHOD = "$/progress";
+
+/**
+ * Name of the method for the application-level heartbeat. (answered with `"pong"`)
+ * Used by the clients which can't send the ping frames. (e.g. browsers)
+ */
+export const PING_METHOD = "rpc.ping";
+
+/**
+ * Name of the notification which is sent by the server before closing the connection gracefully.
+ */
+export const SHUTDOWN_METHOD = "rpc.shutdown";
+
+const DEFAULT_STREAM_HIGH_WATER_MARK = 1024 * 1024;
+const DRAIN_POLLING_INTERVAL = 10;
+
+type MethodFunction<SOC extends Socket = Socket> = (socket: SOC, params: any, ctx: CallContext<SOC>) => Promise<any> | any;
 export type MethodMap<SOC extends Socket = Socket> = Map<string, MethodFunction<SOC>>;
 
+/**
+ * Description of the method which is given by `register()`.
+ */
+export interface MethodDescriptor {
+    /**
+     * JSON Schema of the params. Invalid params are rejected with `InvalidParams` error.
+     */
+    params?: JSONSchema;
+    /**
+     * JSON Schema of the result. Invalid result is responded as `InternalError`.
+     */
+    result?: JSONSchema;
+    /**
+     * A short summary of what the method does. (for `rpc.discover`)
+     */
+    summary?: string;
+    /**
+     * A verbose explanation of the method behavior. (for `rpc.discover`)
+     */
+    description?: string;
+    /**
+     * Declares this method to be deprecated. (for `rpc.discover`)
+     */
+    deprecated?: boolean;
+    /**
+     * Examples of the params and the result. (for `rpc.discover`)
+     */
+    examples?: OpenRPCExample[];
+}
+
+/**
+ * Names of the methods in the contract.
+ * Contract is an interface of the methods which take the params.
+ * e.g. `interface ServerMethods { add(params: { a: number; b: number }): number; }`
+ */
+export type MethodName<M> = keyof M & string;
+
+/**
+ * Type of the params of the method in the contract.
+ */
+export type MethodParams<M, K extends keyof M> = M[K] extends (params: infer P) => any ? P : any;
+
+/**
+ * Type of the (resolved) result of the method in the contract.
+ */
+export type MethodResult<M, K extends keyof M> = M[K] extends (...args: any[]) => infer R ? (R extends PromiseLike<infer U> ? U : R) : any;
+
+/**
+ * Type of the chunks of the streaming method in the contract. (the method returns `AsyncIterable`)
+ */
+export type StreamChunk<M, K extends keyof M> = MethodResult<M, K> extends AsyncIterable<infer T> ? T : any;
+
+/**
+ * Method function which implements the method in the contract.
+ */
+export type TypedMethodFunction<M, K extends keyof M, SOC extends Socket = Socket> = (socket: SOC, params: MethodParams<M, K>, ctx: CallContext<SOC>) => Promise<MethodResult<M, K>> | MethodResult<M, K>;
+
+/**
+ * `MethodMap` typed by the contract.
+ */
+export interface TypedMethodMap<M, SOC extends Socket = Socket> extends MethodMap<SOC> {
+    get<K extends MethodName<M>>(method: K): TypedMethodFunction<M, K, SOC> | undefined;
+    set<K extends MethodName<M>>(method: K, fn: TypedMethodFunction<M, K, SOC>): this;
+}
+
+/**
+ * Callable proxy of the methods in the contract. e.g. `proxy.add({ a: 1, b: 2 })`
+ */
+export type MethodProxy<M> = {
+    [K in MethodName<M>]: (params?: MethodParams<M, K>) => Promise<MethodResult<M, K>>;
+};
+
+/**
+ * Context of the method call which is passed through the middlewares.
+ */
+export interface CallContext<SOC extends Socket = Socket> {
+    /**
+     * The socket which sent the call.
+     */
+    readonly socket: SOC;
+    /**
+     * The original call object.
+     */
+    readonly call: Request | Notification;
+    /**
+     * The id of the request. `undefined` if the call is a notification.
+     */
+    readonly id: string | number | null | undefined;
+    /**
+     * The name of the method to be invoked. It can be rewritten before `next()`.
+     */
+    method: string;
+    /**
+     * The parameters of the method. It can be rewritten before `next()`.
+     */
+    params: any;
+    /**
+     * The result of the method. It can be rewritten after `next()`.
+     */
+    result?: any;
+    /**
+     * The error to respond. Setting this short-circuits the call.
+     */
+    error?: ErrorObject;
+    /**
+     * Aborted when the peer cancels the request by `$/cancelRequest`.
+     */
+    readonly signal: AbortSignal;
+    /**
+     * Custom data store to pass something between the middlewares.
+     */
+    readonly state: { [key: string]: any };
+    /**
+     * Reports a partial result of the request as `$/progress` notification. Ignored for notifications.
+     */
+    progress(value: any): void;
+}
+
+/**
+ * Koa-style middleware around the method dispatch.
+ * Call `next()` to invoke the downstream middlewares and the method.
+ * Throw or set `ctx.error` to respond with a JSON-RPC error.
+ */
+export type Middleware<SOC extends Socket = Socket> = (ctx: CallContext<SOC>, next: () => Promise<void>) => Promise<void> | void;
+
 export default interface MessageHandler<SOC extends Socket = Socket> {
+    on(event: "progress", handler: (socket: SOC, params: { id: string | number; value: any }) => void ): this;
     on(event: "response", handler: (socket: SOC, response: Response) => void ): this;
     on(event: "method_response", handler: (socket: SOC, response: Response) => void ): this;
     on(event: "error_response", handler: (socket: SOC, response: ErrorResponse) => void ): this;
-    on(event: "notification_error", handler: (socket: SOC, error: RPCError) => void ): this;
+    on(event: "notification_error", handler: (socket: SOC, error: ErrorObject) => void ): this;
+    on(event: "limit_exceeded", handler: (socket: SOC, violation: LimitViolation) => void ): this;
 }
 
 export default class MessageHandler<SOC extends Socket = Socket> extends EventEmitter {
-    methods: MethodMap<SOC> = new Map();
+    methods: MethodMap<SOC> = new ObservedMethodMap<SOC>(method => this._descriptors.delete(method));
+
+    /**
+     * Built-in methods (e.g. `rpc.on`) which are used if the method is not found in `methods`.
+     */
+    builtins: MethodMap<SOC> = new Map();
+
+    private _middlewares: Middleware<SOC>[] = [];
+    private _messageQueues: WeakMap<SOC, Promise<void>> = new WeakMap();
+    private _pendingRequests: WeakMap<SOC, Map<string | number, AbortController>> = new WeakMap();
+    /** descriptors by the method name. (removed when the method is replaced or deleted) */
+    private _descriptors: Map<string, MethodDescriptor> = new Map();
+    private _rateLimits: WeakMap<SOC, { all?: TokenBucket; methods: Map<string, TokenBucket> }> = new WeakMap();
+    private _activeMessages: number = 0;
+    private _drainWaiters: (() => void)[] = [];
 
     constructor(readonly options: Options) {
         super();
     }
 
+    /**
+     * Sets the method with the descriptor.
+     * @param method The name of the method.
+     * @param fn The method function.
+     * @param descriptor The descriptor of the method.
+     */
+    register(method: string, fn: MethodFunction<SOC>, descriptor: MethodDescriptor = {}): this {
+        this.methods.set(method, fn);
+        this._descriptors.set(method, descriptor);
+        return this;
+    }
+
+    /**
+     * Gets the descriptor of the method. `undefined` if the method is not registered by `register()`.
+     * @param method The name of the method.
+     */
+    getDescriptor(method: string): MethodDescriptor | undefined {
+        return this._descriptors.get(method);
+    }
+
+    /**
+     * Creates the OpenRPC document of the methods.
+     * @param info The info object of the document. (default: `discover` option)
+     */
+    getOpenRPCDocument(info?: OpenRPCInfo): OpenRPCDocument {
+
+        if (!info && typeof this.options.discover === "object") {
+            info = this.options.discover;
+        }
+
+        const methods: [string, MethodDescriptor | undefined][] = [];
+        for (const name of this.methods.keys()) {
+            methods.push([name, this.getDescriptor(name)]);
+        }
+
+        return createOpenRPCDocument(methods, info);
+    }
+
+    /**
+     * Adds a middleware to the end of the chain.
+     * @param middleware The middleware function.
+     */
+    use(middleware: Middleware<SOC>): this {
+        if (typeof middleware !== "function") {
+            throw new TypeError("middleware must be a function");
+        }
+        this._middlewares.push(middleware);
+        return this;
+    }
+
+    /**
+     * Aborts all the pending requests of the socket. (e.g. the socket is closed)
+     * @param socket The socket.
+     */
+    cancelPendingRequests(socket: SOC): void {
+
+        const pending = this._pendingRequests.get(socket);
+        if (!pending) {
+            return;
+        }
+
+        for (const abortController of pending.values()) {
+            abortController.abort();
+        }
+    }
+
     async handleMessage(socket: SOC, data: Data): Promise<void> {
 
+        this._activeMessages++;
+        try {
+            return await this._handleMessage(socket, data);
+        } finally {
+            if (--this._activeMessages === 0) {
+                for (const resolve of this._drainWaiters.splice(0)) {
+                    resolve();
+                }
+            }
+        }
+    }
+
+    /**
+     * Waits until the messages in process are settled. (including the responses of the method calls)
+     */
+    drain(): Promise<void> {
+        if (this._activeMessages === 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this._drainWaiters.push(resolve));
+    }
+
+    private async _handleMessage(socket: SOC, data: Data): Promise<void> {
+
         const calls: (Request | Notification)[] = [];
-        const responses: Response[] = [];
 
         let isBinary = false;
         let isArray = false;
 
+        const codec: Codec = socket.codec || JSONCodec;
+        let payload: string | Uint8Array;
+
         if (data instanceof ArrayBuffer) {
             isBinary = true;
-            data = Buffer.from(data).toString();
+            payload = new Uint8Array(data);
         } else if (data instanceof Buffer) {
             isBinary = true;
-            data = data.toString();
+            payload = data;
         } else if (Array.isArray(data)) {
             isBinary = true;
-            data = "[" + data.map(buf => buf.toString()).join(",") + "]";
+            payload = codec.binary ? Buffer.concat(data) : "[" + data.map(buf => buf.toString()).join(",") + "]";
+        } else {
+            payload = data as string;
+        }
+
+        const binary = isBinary || codec.binary;
+        const limits = this.options.limits || {};
+
+        if (limits.maxPayload !== undefined) {
+            const size = typeof payload === "string" ? Buffer.byteLength(payload) : payload.byteLength;
+            if (size > limits.maxPayload) {
+                this._sendLimitExceeded(socket, { limit: "maxPayload" }, binary);
+                return;
+            }
         }
 
         try {
-            const obj = JSON.parse(data);
+            const obj = codec.decode(payload);
+            if (limits.maxDepth !== undefined && exceedsDepth(obj, limits.maxDepth)) {
+                this._sendLimitExceeded(socket, { limit: "maxDepth" }, binary);
+                return;
+            }
             if (Array.isArray(obj)) {
                 isArray = true;
 
+                if (limits.maxBatchLength !== undefined && obj.length > limits.maxBatchLength) {
+                    this._sendLimitExceeded(socket, { limit: "maxBatchLength" }, binary);
+                    return;
+                }
+
                 if (obj.length === 0) {
                     const res: Response = {
                         jsonrpc: "2.0",
                         error: createError(ErrorCode.InvalidRequest, null, "Empty Array"),
                         id: null
                     };
-                    socket.send(JSON.stringify(res), isBinary);
+                    socket.send(codec.encode(res), binary);
                     return;
                 }
 
@@ -81,37 +411,102 @@ export default class MessageHandler<SOC extends Socket = Socket> extends EventEm
         } catch (e) {
             const res: Response = {
                 jsonrpc: "2.0",
-                error: createError(ErrorCode.ParseError, null, "Invalid JSON"),
+                error: createError(ErrorCode.ParseError, null, codec.binary ? "Invalid data" : "Invalid JSON"),
                 id: null
             };
-            socket.send(JSON.stringify(res), isBinary);
+            socket.send(codec.encode(res), binary);
             return;
         }
 
-        for (const call of calls) {
-            const res = await this._processCall(socket, call);
-            if (res) {
-                responses.push(res);
+        const respond = (results: (Response | void)[]) => {
+            const responses = results.filter(res => res) as Response[];
+            if (responses.length === 0) {
+                return;
             }
+            socket.send(codec.encode(isArray ? responses : responses[0]), binary);
+        };
+
+        if (!this.options.preserveMessageOrder) {
+            respond(await this._processCalls(socket, calls));
+            return;
         }
 
-        if (responses.length === 0) {
+        // the responses and the control notifications are not queued.
+        // the calls in process may wait for them. (e.g. `socket.call()` in the method, `$/cancelRequest`)
+        const controls = calls.filter(isControlMessage);
+        const ordered = calls.filter(call => !isControlMessage(call));
+        const processing = this._processCalls(socket, controls);
+        if (ordered.length === 0) {
+            respond(await processing);
             return;
         }
 
-        socket.send(JSON.stringify(isArray ? responses : responses[0]), isBinary);
+        processing.catch(() => void 0);
+        await this._enqueue(socket, async () => {
+            const results = await this._processCalls(socket, ordered);
+            respond([...await processing, ...results]);
+        });
+    }
+
+    /**
+     * Runs the task after the previous tasks of the socket. (`preserveMessageOrder`)
+     */
+    private _enqueue(socket: SOC, task: () => Promise<void>): Promise<void> {
+
+        const previous = this._messageQueues.get(socket) || Promise.resolve();
+        const current = previous.then(task);
+        const queue = current.catch(() => void 0);
+        this._messageQueues.set(socket, queue);
+        queue.then(() => {
+            if (this._messageQueues.get(socket) === queue) {
+                this._messageQueues.delete(socket);
+            }
+        });
+
+        return current;
+    }
+
+    /**
+     * Processes the calls by `batchConcurrency`. Results are in the same order as the calls.
+     */
+    private async _processCalls(socket: SOC, calls: (Request | Notification)[]): Promise<(Response | void)[]> {
+
+        const results: (Response | void)[] = new Array(calls.length);
+
+        let concurrency = 1;
+        if (this.options.batchConcurrency === "parallel") {
+            concurrency = calls.length;
+        } else if (typeof this.options.batchConcurrency === "number" && this.options.batchConcurrency > 1) {
+            concurrency = Math.floor(this.options.batchConcurrency);
+        }
+
+        let index = 0;
+        const worker = async () => {
+            while (index < calls.length) {
+                const i = index++;
+                results[i] = await this._processCall(socket, calls[i]);
+            }
+        };
+
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < Math.min(concurrency, calls.length); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+
+        return results;
     }
 
     private async _processCall(socket: SOC, call: Response | Request | Notification): Promise<Response | void> {
 
-        const reqId = (<Request> call).id;
+        const reqId = typeof call === "object" && call !== null ? (<Request> call).id : undefined;
 
         const res: Response = {
             jsonrpc: "2.0",
             id: reqId === undefined ? null : reqId
         };
 
-        if (typeof call !== "object") {
+        if (typeof call !== "object" || call === null) {
             res.error = createError(ErrorCode.InvalidRequest);
             return res;
         }
@@ -163,13 +558,79 @@ export default class MessageHandler<SOC extends Socket = Socket> extends EventEm
             return res;
         }
 
-        if (this.methods.has(call.method) === false) {
-            res.error = createError(ErrorCode.MethodNotFound);
+        // the built-in methods such as `rpc.ping` take the tokens too.
+        const violation = this._takeRateLimit(socket, call.method);
+        if (violation) {
+            const rejected = this._exceedLimit(socket, violation, res.id);
+            return reqId === undefined ? undefined : rejected;
+        }
+
+        if (call.method === CANCEL_REQUEST_METHOD) {
+            this._cancelRequest(socket, call.params);
+            return;
+        }
+
+        if (call.method === PROGRESS_METHOD) {
+            // handled in the same turn as the responses to keep the chunks before the end of the stream.
+            this.emit("progress", socket, call.params);
+            return;
+        }
+
+        if (call.method === PING_METHOD) {
+            // answered before the middlewares to keep the heartbeat of the unauthenticated sockets.
+            if (reqId === undefined) {
+                return;
+            }
+            res.result = "pong";
             return res;
         }
 
+        const abortController = new AbortController();
+        const cancellable = reqId !== undefined && reqId !== null;
+        if (cancellable) {
+            if (!this._pendingRequests.has(socket)) {
+                this._pendingRequests.set(socket, new Map());
+            }
+            this._pendingRequests.get(socket).set(reqId, abortController);
+        }
+
+        const ctx: CallContext<SOC> = {
+            socket,
+            call,
+            id: reqId,
+            method: call.method,
+            params: call.params,
+            signal: abortController.signal,
+            progress: value => {
+                if (cancellable && !abortController.signal.aborted) {
+                    const codec: Codec = socket.codec || JSONCodec;
+                    const notification: Notification = {
+                        jsonrpc: "2.0",
+                        method: PROGRESS_METHOD,
+                        params: { id: reqId, value }
+                    };
+                    socket.send(codec.encode(notification), codec.binary);
+                }
+            },
+            state: {}
+        };
+
         try {
-            res.result = await this.methods.get(call.method)(socket, call.params) || null;
+            await this._runMiddlewares(ctx, 0);
+            if (ctx.signal.aborted && reqId !== undefined) {
+                res.error = createError(ErrorCode.RequestCancelled);
+                return res;
+            }
+            if (ctx.error) {
+                // method not found error is responded even if the call is a notification.
+                // except for `$/` prefixed notifications which are ignorable extensions.
+                if (reqId === undefined && (ctx.error.code !== ErrorCode.MethodNotFound || ctx.method.startsWith("$/"))) {
+                    return;
+                }
+                res.error = ctx.error instanceof RPCError ? ctx.error.toJSON() : ctx.error;
+                return res;
+            }
+            res.result = ctx.result === undefined ? null : ctx.result;
             if (reqId === undefined) {
                 return;
             }
@@ -178,12 +639,278 @@ export default class MessageHandler<SOC extends Socket = Socket> extends EventEm
             if (reqId === undefined) {
                 return;
             }
-            if (e instanceof Error) {
-                res.error = createError(ErrorCode.ServerError, e.name, e.message);
+            if (ctx.signal.aborted) {
+                res.error = createError(ErrorCode.RequestCancelled);
             } else {
-                res.error = e;
+                res.error = this._toErrorObject(e, ctx);
             }
             return res;
+        } finally {
+            if (cancellable) {
+                const pending = this._pendingRequests.get(socket);
+                if (pending.get(reqId) === abortController) {
+                    pending.delete(reqId);
+                }
+                if (pending.size === 0) {
+                    this._pendingRequests.delete(socket);
+                }
+            }
         }
     }
+
+    /**
+     * Converts the error thrown in the call to the error object by `errorMapper`.
+     * `RPCError` and the error object are converted as is, the other `Error` is `ServerError` with its message.
+     * The other values (e.g. `throw "oops"`) are `InternalError`.
+     */
+    private _toErrorObject(e: any, ctx: CallContext<SOC>): ErrorObject {
+
+        const mapped = this.options.errorMapper ? this.options.errorMapper(e, ctx) || e : e;
+
+        let error: ErrorObject;
+        if (mapped instanceof RPCError) {
+            error = mapped.toJSON();
+        } else if (mapped instanceof Error) {
+            error = createError(ErrorCode.ServerError, mapped.message);
+        } else if (isErrorObject(mapped)) {
+            // the error object is thrown.
+            return mapped;
+        } else {
+            error = createError(ErrorCode.InternalError);
+        }
+
+        if (this.options.debug && e instanceof Error && (error.data === undefined || isPlainObject(error.data))) {
+            error.data = { ...error.data, stack: e.stack };
+        }
+
+        return error;
+    }
+
+    /**
+     * Aborts the pending request of the socket. (`$/cancelRequest`)
+     */
+    private _cancelRequest(socket: SOC, params: any): void {
+
+        const pending = this._pendingRequests.get(socket);
+        if (!pending || !params || pending.has(params.id) === false) {
+            return;
+        }
+
+        pending.get(params.id).abort();
+    }
+
+    /**
+     * Takes the tokens of the rate limits for the method call. Returns the violation if exceeded.
+     */
+    private _takeRateLimit(socket: SOC, method: string): LimitViolation | void {
+
+        const limits = this.options.limits;
+        if (!limits || (!limits.rate && !limits.methods)) {
+            return;
+        }
+
+        let buckets = this._rateLimits.get(socket);
+        if (!buckets) {
+            buckets = { methods: new Map() };
+            this._rateLimits.set(socket, buckets);
+        }
+
+        if (limits.rate) {
+            if (!buckets.all) {
+                buckets.all = new TokenBucket(limits.rate);
+            }
+            const retryAfter = buckets.all.take();
+            if (retryAfter !== 0) {
+                return { limit: "rate", retryAfter };
+            }
+        }
+
+        if (limits.methods && Object.prototype.hasOwnProperty.call(limits.methods, method)) {
+            if (!buckets.methods.has(method)) {
+                buckets.methods.set(method, new TokenBucket(limits.methods[method]));
+            }
+            const retryAfter = buckets.methods.get(method).take();
+            if (retryAfter !== 0) {
+                return { limit: "rate", method, retryAfter };
+            }
+        }
+    }
+
+    /**
+     * Emits `limit_exceeded`, then closes the socket or creates the error response by the `action` of the limits.
+     */
+    private _exceedLimit(socket: SOC, violation: LimitViolation, id: string | number | null): Response | void {
+
+        this.emit("limit_exceeded", socket, violation);
+
+        if (this.options.limits.action === "close" && socket.close) {
+            socket.close(1008, "Limit exceeded");
+            return;
+        }
+
+        return {
+            jsonrpc: "2.0",
+            error: createError(ErrorCode.LimitExceeded, null, violation),
+            id
+        };
+    }
+
+    /**
+     * Rejects the whole message by the limit.
+     */
+    private _sendLimitExceeded(socket: SOC, violation: LimitViolation, binary: boolean): void {
+
+        const res = this._exceedLimit(socket, violation, null);
+        if (res) {
+            const codec: Codec = socket.codec || JSONCodec;
+            socket.send(codec.encode(res), binary);
+        }
+    }
+
+    private async _runMiddlewares(ctx: CallContext<SOC>, index: number): Promise<void> {
+
+        if (index === this._middlewares.length) {
+            return this._dispatch(ctx);
+        }
+
+        let called = false;
+        await this._middlewares[index](ctx, () => {
+            if (called) {
+                return Promise.reject(new Error("next() called multiple times"));
+            }
+            called = true;
+            return this._runMiddlewares(ctx, index + 1);
+        });
+    }
+
+    private async _dispatch(ctx: CallContext<SOC>): Promise<void> {
+
+        const fn = this.methods.get(ctx.method) || this.builtins.get(ctx.method);
+
+        if (!fn) {
+            if (ctx.method === DISCOVER_METHOD && this.options.discover) {
+                ctx.result = this.getOpenRPCDocument();
+                return;
+            }
+            ctx.error = createError(ErrorCode.MethodNotFound);
+            return;
+        }
+
+        const descriptor = this._descriptors.get(ctx.method) || {};
+
+        if (descriptor.params) {
+            const errors = validate(descriptor.params, ctx.params === undefined ? {} : ctx.params);
+            if (errors.length !== 0) {
+                ctx.error = createError(ErrorCode.InvalidParams, null, errors);
+                return;
+            }
+        }
+
+        ctx.result = await fn(ctx.socket, ctx.params, ctx);
+
+        if (isAsyncIterable(ctx.result)) {
+            // the chunks are the partial results, the final response has no result.
+            const iterable = ctx.result;
+            ctx.result = null;
+            await this._pipeStream(ctx, iterable);
+            return;
+        }
+
+        if (descriptor.result) {
+            const errors = validate(descriptor.result, ctx.result === undefined ? null : ctx.result);
+            if (errors.length !== 0) {
+                ctx.result = undefined;
+                ctx.error = createError(ErrorCode.InternalError, null, errors);
+            }
+        }
+    }
+
+    /**
+     * Sends the chunks of the iterable as `$/progress` notifications.
+     * The iterable is pulled only while the socket is not congested, and closed when the request is cancelled.
+     */
+    private async _pipeStream(ctx: CallContext<SOC>, iterable: AsyncIterable<any>): Promise<void> {
+
+        if (ctx.id === undefined || ctx.id === null) {
+            return;
+        }
+
+        const iterator = iterable[Symbol.asyncIterator]();
+        let finished = false;
+
+        try {
+            while (true) {
+                await this._waitForDrain(ctx);
+                if (ctx.signal.aborted) {
+                    return;
+                }
+                const { value, done } = await iterator.next();
+                if (done) {
+                    finished = true;
+                    return;
+                }
+                ctx.progress(value);
+            }
+        } catch (e) {
+            finished = true;
+            throw e;
+        } finally {
+            if (!finished && typeof iterator.return === "function") {
+                await iterator.return();
+            }
+        }
+    }
+
+    private async _waitForDrain(ctx: CallContext<SOC>): Promise<void> {
+
+        const highWaterMark = this.options.streamHighWaterMark === undefined ? DEFAULT_STREAM_HIGH_WATER_MARK : this.options.streamHighWaterMark;
+
+        while ((ctx.socket.bufferedAmount || 0) > highWaterMark && !ctx.signal.aborted) {
+            await new Promise(resolve => setTimeout(resolve, DRAIN_POLLING_INTERVAL));
+        }
+    }
+}
+
+/**
+ * Map of the methods which notifies the replaced or deleted method.
+ */
+class ObservedMethodMap<SOC extends Socket> extends Map<string, MethodFunction<SOC>> {
+
+    constructor(private _onChange: (method: string) => void) {
+        super();
+    }
+
+    set(method: string, fn: MethodFunction<SOC>): this {
+        this._onChange(method);
+        return super.set(method, fn);
+    }
+
+    delete(method: string): boolean {
+        this._onChange(method);
+        return super.delete(method);
+    }
+
+    clear(): void {
+        for (const method of this.keys()) {
+            this._onChange(method);
+        }
+        super.clear();
+    }
+}
+
+/**
+ * Check the message is a response or a `$/` prefixed notification which is processed out of the order.
+ */
+function isControlMessage(call: Response | Request | Notification): boolean {
+    if (typeof call !== "object" || call === null) {
+        return false;
+    }
+    if (isResponse(call)) {
+        return true;
+    }
+    return (<Request> call).id === undefined && typeof call.method === "string" && call.method.startsWith("$/");
+}
+
+function isPlainObject(value: any): boolean {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
 }
@@ -1,11 +1,29 @@
 import EventEmitter = require("eventemitter3");
 import { Data } from "ws";
+import { Codec } from "./codec";
 
 export interface Socket extends EventEmitter {
+    /**
+     * The codec of the messages. JSON if not set.
+     */
+    readonly codec?: Codec;
+
+    /**
+     * The number of bytes of the messages which are queued but not yet sent.
+     */
+    readonly bufferedAmount?: number;
+
     /**
      * Sends a (raw) message to the socket.
      * @param data The data to send.
      * @param isBinary Send
      */
     send(data: Data, binary: boolean): void;
+
+    /**
+     * Closes the connection. (used by the `"close"` action of the limits)
+     * @param code The status code.
+     * @param reason The reason.
+     */
+    close?(code?: number, reason?: string): void;
 }
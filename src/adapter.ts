@@ -0,0 +1,220 @@
+import EventEmitter = require("eventemitter3");
+
+/**
+ * Message to be broadcasted by the adapter.
+ */
+export interface BroadcastPacket {
+    /**
+     * JSON-RPC message which is encoded by the codec of each socket.
+     */
+    message?: object;
+    /**
+     * (raw) data which is sent as is.
+     */
+    data?: any;
+}
+
+export interface BroadcastOptions {
+    /**
+     * names of the rooms. all sockets if omitted.
+     */
+    rooms?: string[];
+    /**
+     * ids of the sockets to be excluded.
+     */
+    except?: string[];
+}
+
+/**
+ * The server side of the adapter.
+ */
+export interface AdapterHost {
+    /**
+     * Sends the packet to the local sockets.
+     * @param packet The packet to be sent.
+     * @param socketIds ids of the local sockets.
+     */
+    deliver(packet: BroadcastPacket, socketIds: Iterable<string>): void;
+    /**
+     * Reports an error of the adapter. (emitted as `error` event of the server)
+     */
+    error(error: any): void;
+}
+
+/**
+ * Adapter which manages the membership of the rooms and delivers the broadcasts.
+ * Replace it to share the rooms and the broadcasts across multiple server processes.
+ * Membership events are emitted for the sockets of this node.
+ */
+export interface Adapter extends EventEmitter {
+    on(event: "join_room", listener: (room: string, id: string) => void): this;
+    on(event: "leave_room", listener: (room: string, id: string) => void): this;
+    on(event: "room_empty", listener: (room: string) => void): this;
+
+    /**
+     * Adds the socket which is connected to this node.
+     * @param id The id of the socket.
+     */
+    addSocket(id: string): void;
+    /**
+     * Removes the socket and leaves from all the rooms.
+     * @param id The id of the socket.
+     */
+    removeSocket(id: string): void;
+    /**
+     * Joins the socket to the room.
+     * @param id The id of the socket.
+     * @param room The name of the room.
+     */
+    join(id: string, room: string): void;
+    /**
+     * Leaves the socket from the room.
+     * @param id The id of the socket.
+     * @param room The name of the room.
+     */
+    leave(id: string, room: string): void;
+    /**
+     * Broadcasts the packet to the sockets of all nodes.
+     * @param packet The packet to be sent.
+     * @param options The target of the broadcast.
+     */
+    broadcast(packet: BroadcastPacket, options?: BroadcastOptions): void;
+    /**
+     * Gets the ids of the sockets of all nodes.
+     * @param options The target of the query.
+     */
+    fetchSocketIds(options?: BroadcastOptions): Promise<string[]>;
+    /**
+     * Gets the names of the rooms which have the sockets of this node.
+     */
+    localRooms(): string[];
+    /**
+     * Gets the ids of the sockets of this node.
+     * @param options The target of the query.
+     */
+    localSocketIds(options?: BroadcastOptions): Set<string>;
+    /**
+     * Releases the resources of the adapter.
+     */
+    close(): Promise<void> | void;
+}
+
+/**
+ * Creates the adapter for the server.
+ */
+export type AdapterFactory = (host: AdapterHost) => Adapter;
+
+/**
+ * Adapter for a single process. (default)
+ * Other adapters extend this to deliver to the local sockets.
+ */
+export class InMemoryAdapter extends EventEmitter implements Adapter {
+
+    /** socket ids by the room */
+    protected rooms: Map<string, Set<string>> = new Map();
+    /** rooms by the socket id */
+    protected sids: Map<string, Set<string>> = new Map();
+
+    constructor(protected host: AdapterHost) {
+        super();
+    }
+
+    addSocket(id: string): void {
+        if (this.sids.has(id) === false) {
+            this.sids.set(id, new Set());
+        }
+    }
+
+    removeSocket(id: string): void {
+
+        const rooms = this.sids.get(id);
+        if (!rooms) {
+            return;
+        }
+
+        for (const room of Array.from(rooms)) {
+            this.leave(id, room);
+        }
+        this.sids.delete(id);
+    }
+
+    join(id: string, room: string): void {
+
+        this.addSocket(id);
+        this.sids.get(id).add(room);
+
+        if (this.rooms.has(room) === false) {
+            this.rooms.set(room, new Set());
+        }
+        const ids = this.rooms.get(room);
+        if (ids.has(id) === false) {
+            ids.add(id);
+            this.emit("join_room", room, id);
+        }
+    }
+
+    leave(id: string, room: string): void {
+
+        const rooms = this.sids.get(id);
+        if (rooms) {
+            rooms.delete(room);
+        }
+
+        const ids = this.rooms.get(room);
+        if (!ids || ids.delete(id) === false) {
+            return;
+        }
+        this.emit("leave_room", room, id);
+        if (ids.size === 0) {
+            this.rooms.delete(room);
+            this.emit("room_empty", room);
+        }
+    }
+
+    broadcast(packet: BroadcastPacket, options: BroadcastOptions = {}): void {
+        this.localBroadcast(packet, options);
+    }
+
+    async fetchSocketIds(options: BroadcastOptions = {}): Promise<string[]> {
+        return Array.from(this.localSocketIds(options));
+    }
+
+    localRooms(): string[] {
+        return Array.from(this.rooms.keys());
+    }
+
+    localSocketIds(options: BroadcastOptions = {}): Set<string> {
+
+        let ids: Set<string>;
+        if (!options.rooms) {
+            ids = new Set(this.sids.keys());
+        } else if (options.rooms.length === 1) {
+            ids = new Set(this.rooms.get(options.rooms[0]));
+        } else {
+            ids = new Set();
+            for (const room of options.rooms) {
+                for (const id of this.rooms.get(room) || []) {
+                    ids.add(id);
+                }
+            }
+        }
+
+        for (const id of options.except || []) {
+            ids.delete(id);
+        }
+
+        return ids;
+    }
+
+    close(): void {
+        this.rooms.clear();
+        this.sids.clear();
+    }
+
+    /**
+     * Delivers the packet to the sockets of this node.
+     */
+    protected localBroadcast(packet: BroadcastPacket, options: BroadcastOptions): void {
+        this.host.deliver(packet, this.localSocketIds(options));
+    }
+}
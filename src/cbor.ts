@@ -0,0 +1,361 @@
+/**
+ * CBOR encoder / decoder.
+ * Values are converted like `JSON.stringify()` except `Uint8Array` (and `Buffer`) which is encoded as byte string.
+ * https://www.rfc-editor.org/rfc/rfc8949
+ */
+
+const enum MajorType {
+    UnsignedInteger = 0,
+    NegativeInteger = 1,
+    ByteString = 2,
+    TextString = 3,
+    Array = 4,
+    Map = 5,
+    Tag = 6,
+    Simple = 7
+}
+
+const INDEFINITE_LENGTH = 31;
+const BREAK = 0xff;
+
+/**
+ * Encodes the value to CBOR.
+ * @param value The value to be encoded.
+ */
+export function encode(value: any): Uint8Array {
+    const encoder = new Encoder();
+    encoder.write(value);
+    return encoder.finish();
+}
+
+/**
+ * Decodes the CBOR to the value.
+ * Byte string is decoded as `Uint8Array` (`Buffer` in Node.js), date/time tags (0, 1) as `Date`.
+ * @param data The data to be decoded.
+ */
+export function decode(data: Uint8Array): any {
+    const decoder = new Decoder(data);
+    const value = decoder.read();
+    if (decoder.offset !== data.length) {
+        throw new Error("CBOR: extra bytes found");
+    }
+    return value;
+}
+
+class Encoder {
+
+    private _buffer: Buffer = Buffer.allocUnsafe(256);
+    private _offset: number = 0;
+
+    write(value: any): void {
+
+        if (value === null || value === undefined) {
+            this._writeUint8(0xf6);
+        } else if (value === false) {
+            this._writeUint8(0xf4);
+        } else if (value === true) {
+            this._writeUint8(0xf5);
+        } else if (typeof value === "number") {
+            this._writeNumber(value);
+        } else if (typeof value === "string") {
+            const length = Buffer.byteLength(value);
+            this._writeHeader(MajorType.TextString, length);
+            this._ensure(length);
+            this._buffer.write(value, this._offset, length, "utf8");
+            this._offset += length;
+        } else if (value instanceof Uint8Array) {
+            this._writeBytes(value);
+        } else if (ArrayBuffer.isView(value)) {
+            this._writeBytes(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        } else if (value instanceof ArrayBuffer) {
+            this._writeBytes(new Uint8Array(value));
+        } else if (typeof value.toJSON === "function") {
+            this.write(value.toJSON());
+        } else if (Array.isArray(value)) {
+            this._writeHeader(MajorType.Array, value.length);
+            for (const item of value) {
+                // `undefined` in array is `null` in JSON.
+                this.write(item);
+            }
+        } else if (typeof value === "object") {
+            // `undefined` and functions in object are omitted in JSON.
+            const keys = Object.keys(value).filter(key => value[key] !== undefined && typeof value[key] !== "function");
+            this._writeHeader(MajorType.Map, keys.length);
+            for (const key of keys) {
+                this.write(key);
+                this.write(value[key]);
+            }
+        } else {
+            // functions, symbols and bigints are not serializable like JSON.
+            this._writeUint8(0xf6);
+        }
+    }
+
+    finish(): Uint8Array {
+        return this._buffer.subarray(0, this._offset);
+    }
+
+    private _writeNumber(value: number): void {
+
+        if (Number.isInteger(value) && Math.abs(value) <= 0xffffffff) {
+            if (value >= 0) {
+                this._writeHeader(MajorType.UnsignedInteger, value);
+            } else {
+                this._writeHeader(MajorType.NegativeInteger, -1 - value);
+            }
+            return;
+        }
+
+        if (isFinite(value) === false) {
+            // NaN and Infinity are `null` in JSON.
+            this._writeUint8(0xf6);
+            return;
+        }
+
+        this._ensure(9);
+        this._buffer[this._offset++] = 0xfb;
+        this._buffer.writeDoubleBE(value, this._offset);
+        this._offset += 8;
+    }
+
+    private _writeBytes(value: Uint8Array): void {
+        this._writeHeader(MajorType.ByteString, value.length);
+        this._ensure(value.length);
+        this._buffer.set(value, this._offset);
+        this._offset += value.length;
+    }
+
+    private _writeHeader(major: MajorType, argument: number): void {
+
+        if (argument < 24) {
+            this._writeUint8(major << 5 | argument);
+        } else if (argument < 0x100) {
+            this._writeUint8(major << 5 | 24);
+            this._writeUint8(argument);
+        } else if (argument < 0x10000) {
+            this._writeUint8(major << 5 | 25);
+            this._ensure(2);
+            this._buffer.writeUInt16BE(argument, this._offset);
+            this._offset += 2;
+        } else {
+            this._writeUint8(major << 5 | 26);
+            this._ensure(4);
+            this._buffer.writeUInt32BE(argument, this._offset);
+            this._offset += 4;
+        }
+    }
+
+    private _writeUint8(value: number): void {
+        this._ensure(1);
+        this._buffer[this._offset++] = value;
+    }
+
+    private _ensure(size: number): void {
+
+        if (this._offset + size <= this._buffer.length) {
+            return;
+        }
+
+        const buffer = Buffer.allocUnsafe(Math.max(this._buffer.length * 2, this._offset + size));
+        this._buffer.copy(buffer, 0, 0, this._offset);
+        this._buffer = buffer;
+    }
+}
+
+class Decoder {
+
+    offset: number = 0;
+
+    private _buffer: Buffer;
+
+    constructor(data: Uint8Array) {
+        this._buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    read(): any {
+
+        const initial = this._readFixed(1, () => this._buffer[this.offset]);
+        const major: MajorType = initial >> 5;
+        const additional = initial & 0x1f;
+
+        if (major === MajorType.Simple) {
+            return this._readSimple(additional);
+        }
+
+        if (additional === INDEFINITE_LENGTH) {
+            return this._readIndefinite(major);
+        }
+
+        const argument = this._readArgument(additional);
+
+        switch (major) {
+            case MajorType.UnsignedInteger:
+                return argument;
+            case MajorType.NegativeInteger:
+                return -1 - argument;
+            case MajorType.ByteString:
+                return this._readBytes(argument);
+            case MajorType.TextString:
+                return this._readBytes(argument).toString("utf8");
+            case MajorType.Array: {
+                const array = new Array(argument);
+                for (let i = 0; i < argument; i++) {
+                    array[i] = this.read();
+                }
+                return array;
+            }
+            case MajorType.Map: {
+                const map: { [key: string]: any } = {};
+                for (let i = 0; i < argument; i++) {
+                    this._readEntry(map);
+                }
+                return map;
+            }
+            case MajorType.Tag:
+                return this._readTag(argument);
+        }
+    }
+
+    private _readIndefinite(major: MajorType): any {
+
+        switch (major) {
+            case MajorType.ByteString:
+            case MajorType.TextString: {
+                const chunks: Buffer[] = [];
+                while (this._isBreak() === false) {
+                    const chunk = this.read();
+                    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+                }
+                const bytes = Buffer.concat(chunks);
+                return major === MajorType.TextString ? bytes.toString("utf8") : bytes;
+            }
+            case MajorType.Array: {
+                const array = [];
+                while (this._isBreak() === false) {
+                    array.push(this.read());
+                }
+                return array;
+            }
+            case MajorType.Map: {
+                const map: { [key: string]: any } = {};
+                while (this._isBreak() === false) {
+                    this._readEntry(map);
+                }
+                return map;
+            }
+        }
+
+        throw new Error(`CBOR: invalid indefinite length of major type ${major}`);
+    }
+
+    private _readEntry(map: { [key: string]: any }): void {
+
+        const key = this.read();
+        if (typeof key !== "string" && typeof key !== "number") {
+            throw new Error("CBOR: map key must be string or number");
+        }
+
+        const value = this.read();
+        if (key === "__proto__") {
+            // same as `JSON.parse()`, don't change the prototype.
+            Object.defineProperty(map, key, { value, enumerable: true, configurable: true, writable: true });
+        } else {
+            map[key] = value;
+        }
+    }
+
+    private _readTag(tag: number): any {
+
+        const value = this.read();
+
+        if (tag === 0 && typeof value === "string") {
+            return new Date(value);
+        }
+        if (tag === 1 && typeof value === "number") {
+            return new Date(value * 1000);
+        }
+
+        // unknown tags are ignored.
+        return value;
+    }
+
+    private _readSimple(additional: number): any {
+
+        switch (additional) {
+            case 20:
+                return false;
+            case 21:
+                return true;
+            case 22:
+            case 23:
+                return null;
+            case 25:
+                return this._readFixed(2, () => _decodeHalfFloat(this._buffer.readUInt16BE(this.offset)));
+            case 26:
+                return this._readFixed(4, () => this._buffer.readFloatBE(this.offset));
+            case 27:
+                return this._readFixed(8, () => this._buffer.readDoubleBE(this.offset));
+        }
+
+        throw new Error(`CBOR: unsupported simple value ${additional}`);
+    }
+
+    private _readArgument(additional: number): number {
+
+        if (additional < 24) {
+            return additional;
+        }
+
+        switch (additional) {
+            case 24:
+                return this._readFixed(1, () => this._buffer[this.offset]);
+            case 25:
+                return this._readFixed(2, () => this._buffer.readUInt16BE(this.offset));
+            case 26:
+                return this._readFixed(4, () => this._buffer.readUInt32BE(this.offset));
+            case 27:
+                return this._readFixed(8, () => this._buffer.readUInt32BE(this.offset) * 0x100000000 + this._buffer.readUInt32BE(this.offset + 4));
+        }
+
+        throw new Error(`CBOR: invalid additional information ${additional}`);
+    }
+
+    private _readBytes(length: number): Buffer {
+        return this._readFixed(length, () => Buffer.from(this._buffer.subarray(this.offset, this.offset + length)));
+    }
+
+    private _isBreak(): boolean {
+        if (this.offset >= this._buffer.length) {
+            throw new Error("CBOR: unexpected end of data");
+        }
+        if (this._buffer[this.offset] === BREAK) {
+            this.offset++;
+            return true;
+        }
+        return false;
+    }
+
+    private _readFixed<T>(size: number, reader: () => T): T {
+        if (this.offset + size > this._buffer.length) {
+            throw new Error("CBOR: unexpected end of data");
+        }
+        const value = reader();
+        this.offset += size;
+        return value;
+    }
+}
+
+function _decodeHalfFloat(half: number): number {
+
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+
+    if (exponent === 0) {
+        return sign * Math.pow(2, -14) * (fraction / 1024);
+    }
+    if (exponent === 0x1f) {
+        return fraction ? NaN : sign * Infinity;
+    }
+    return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
@@ -3,8 +3,16 @@ import Backoff = require("backo2");
 import EventEmitter = require("eventemitter3");
 import { Socket } from "./Socket";
 import { Data } from "isomorphic-ws";
-import { Notification, Request, Response, isSuccessResponse, Error as RPCError, ErrorResponse } from "./common";
-import MessageHandler, { Options as MessageHandlerOptions } from "./MessageHandler";
+import { Notification, Request, Response, isSuccessResponse, Error as ErrorObject, ErrorResponse } from "./common";
+import MessageHandler, { Options as MessageHandlerOptions, Middleware, CANCEL_REQUEST_METHOD, PING_METHOD, SHUTDOWN_METHOD, TypedMethodMap, TypedMethodFunction, MethodDescriptor, MethodName, MethodParams, MethodResult, MethodProxy, StreamChunk } from "./MessageHandler";
+import { OpenRPCDocument, OpenRPCInfo } from "./openrpc";
+import { AbortError, ConnectionClosedError, RPCError } from "./errors";
+import { Codec, JSONCodec } from "./codec";
+import { ResultStream } from "./stream";
+import { SUBSCRIBE_METHOD, UNSUBSCRIBE_METHOD, EventName, SubscriptionResult } from "./subscription";
+import { LimitViolation } from "./limits";
+import { Transport } from "./transport";
+import { SESSION_METHOD, RESUME_TOKEN_PARAMETER, isSessionParams } from "./session";
 
 /**
  * Client Config
@@ -16,10 +24,30 @@ export interface Config extends MessageHandlerOptions, WebSocket.ClientOptions {
     reconnectionDelayMax: number;
     reconnectionJitter: number;
     methodCallTimeout: number;
+    /**
+     * how many ms before sending a new ping to the server (`0` to disable)
+     * uses the ping frames under Node.js, or `rpc.ping` method in browsers.
+     */
+    pingInterval: number;
+    /**
+     * how many ms without any message from the server after the ping to consider the connection dead
+     * the connection is closed by force and reconnected. (if `reconnection` is enabled)
+     */
+    pingTimeout: number;
     autoConnect: boolean;
     bufferSendingMessages: boolean;
     query: object;
     protocols: string | string[];
+    /**
+     * codec(s) of the messages. (default: JSON)
+     * offered as the WebSocket subprotocols in order of preference, the first one is used if not negotiated.
+     */
+    codec: Codec | Codec[];
+    /**
+     * creates the connection instead of WebSocket. (e.g. `StreamTransport`, `MessagePortTransport`, `HTTPTransport`)
+     * called on each (re)connection with the URI which has the resume token.
+     */
+    transport?: (uri: string, protocols: string | string[]) => Transport;
 }
 
 /**
@@ -27,6 +55,51 @@ export interface Config extends MessageHandlerOptions, WebSocket.ClientOptions {
  */
 export type Options = Partial<Config>;
 
+/**
+ * Options of the method call
+ */
+export interface CallOptions {
+    /**
+     * Rejects the call and sends `$/cancelRequest` to the server when aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * Re-sends the request after reconnected if the connection is closed unexpectedly.
+     * Use this only for idempotent methods because the server may have processed it already.
+     */
+    retryOnReconnect?: boolean;
+}
+
+/**
+ * Options of the streaming method call
+ */
+export interface StreamOptions {
+    /**
+     * Stops the stream and sends `$/cancelRequest` to the server when aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * The stream fails and is cancelled if the unconsumed chunks exceed this. (default: Infinity)
+     */
+    maxBufferedChunks?: number;
+}
+
+interface ResponseHandler {
+    timer: NodeJS.Timer;
+    resolve: (value?: any) => void;
+    reject: (reason?: any) => void;
+    /** (raw) request message which is sent or buffered */
+    data?: Data;
+    /** (raw) request message to re-send after reconnected */
+    retryData?: Data;
+}
+
+interface Subscription {
+    handlers: Set<(payload: any) => void>;
+    /** settled when the server accepted `rpc.on` */
+    ready: Promise<void>;
+}
+
 export const ConfigDefaults: Config = Object.freeze({
     reconnection: true,
     reconnectionAttempts: Infinity,
@@ -34,16 +107,19 @@ export const ConfigDefaults: Config = Object.freeze({
     reconnectionDelayMax: 5000,
     reconnectionJitter: 0.5,
     methodCallTimeout: 20000,
+    pingInterval: 25000,
+    pingTimeout: 20000,
     autoConnect: true,
     bufferSendingMessages: true,
     query: {},
-    protocols: ""
+    protocols: "",
+    codec: JSONCodec
 });
 
 // Hack typing because attempts property is missing in @types.
 type BackoffEx = Backoff & {attempts: number};
 
-export default interface Client {
+export default interface Client<ServerMethods = any, ClientMethods = any, ServerEvents = any> {
     on(event: "connecting", listener: (this: Client) => void): this;
     on(event: "connected", listener: (this: Client) => void): this;
     on(event: "disconnect", listener: (this: Client, code: number, reason: any) => void): this;
@@ -52,29 +128,68 @@ export default interface Client {
     on(event: "reconnect_error", listener: (this: Client, err: any) => void): this;
     on(event: "reconnected", listener: (this: Client, attemps: number) => void): this;
     on(event: "error_response", listener: (this: Client, response: ErrorResponse) => void): this;
-    on(event: "notification_error", listener: (this: Client, error: RPCError) => void): this;
+    on(event: "notification_error", listener: (this: Client, error: ErrorObject) => void): this;
     on(event: "close", cb: (this: Client) => void): this;
     on(event: "error", listener: (this: Client, error: any) => void): this;
     on(event: "buffer_sending_error", listener: (this: Client, error: any) => void): this;
+    on(event: "heartbeat_timeout", listener: (this: Client) => void): this;
+    on(event: "session", listener: (this: Client, id: string, resumed: boolean) => void): this;
+    on(event: "limit_exceeded", listener: (this: Client, violation: LimitViolation) => void): this;
+    on(event: "shutdown", listener: (this: Client) => void): this;
 }
 
 /**
  * JSON-RPC 2.0 Client
+ * @typeParam ServerMethods contract of the methods which the server provides.
+ * @typeParam ClientMethods contract of the methods which the client provides.
+ * @typeParam ServerEvents contract of the events which the server publishes.
  */
-export default class Client extends EventEmitter implements Socket {
+export default class Client<ServerMethods = any, ClientMethods = any, ServerEvents = any> extends EventEmitter implements Socket {
     readonly config: Config;
     readonly sendingMessageBuffer: Data[] = [];
 
-    get methods() { return this._messageHandler.methods; }
+    /**
+     * The codec of the messages. It's determined by the negotiation when connected.
+     */
+    codec: Codec;
+
+    /**
+     * The id of the session (the socket id on the server) if the server enables the session resumption.
+     */
+    sessionId: string;
+
+    /**
+     * Calls the method of the server by the property. e.g. `client.proxy.add({ a: 1, b: 2 })`
+     */
+    readonly proxy: MethodProxy<ServerMethods> = new Proxy({}, {
+        get: (target, method) => {
+            if (typeof method !== "string" || method === "then") {
+                return undefined;
+            }
+            return (params?: object) => this.call(method as MethodName<ServerMethods>, params as any);
+        }
+    }) as MethodProxy<ServerMethods>;
+
+    /**
+     * The number of bytes of the messages which are queued but not yet sent.
+     */
+    get bufferedAmount(): number { return this._ws ? this._ws.bufferedAmount : 0; }
+
+    get methods() { return this._messageHandler.methods as TypedMethodMap<ClientMethods, Client<ServerMethods, ClientMethods, ServerEvents>>; }
 
     private _ws: WebSocket;
     private _backoff: BackoffEx;
     private _reconnecting: boolean = false;
-    private _messageHandler: MessageHandler<Client>;
-    private _responseHandlers: Map<number, [NodeJS.Timer, (value?: any) => void, (reason?: any) => void]> = new Map();
+    private _messageHandler: MessageHandler<Client<ServerMethods, ClientMethods, ServerEvents>>;
+    private _responseHandlers: Map<number, ResponseHandler> = new Map();
     private _skipReconnection: boolean = false;
     private _currentRequestId: number = 0;
     private _reconnectionSleepTimer: number;
+    private _subscriptions: Map<string, Subscription> = new Map();
+    private _streams: Map<number, ResultStream> = new Map();
+    private _pingTimer: NodeJS.Timer;
+    private _pongTimer: NodeJS.Timer;
+    private _resumeToken: string;
 
     /**
      * Create an instance
@@ -89,6 +204,8 @@ export default class Client extends EventEmitter implements Socket {
             ...options
         };
 
+        this.codec = this._getCodecs()[0];
+
         this._backoff = new Backoff({
             min: this.config.reconnectionDelay,
             max: this.config.reconnectionDelayMax,
@@ -99,6 +216,10 @@ export default class Client extends EventEmitter implements Socket {
         this._messageHandler.on("method_response", (socket, response) => this._handleMethodResponse(response));
         this._messageHandler.on("error_response", (socket, response) => this.emit("error_response", response));
         this._messageHandler.on("notification_error", (socket, error) => this.emit("notification_error", error));
+        this._messageHandler.on("progress", (socket, params) => this._handleProgress(params));
+        this._messageHandler.on("limit_exceeded", (socket, violation) => this.emit("limit_exceeded", violation));
+        this._messageHandler.builtins.set(SESSION_METHOD, (socket, params) => this._handleSession(params));
+        this._messageHandler.builtins.set(SHUTDOWN_METHOD, () => this._handleShutdown());
 
         if (this.config.autoConnect) {
             this.connect().catch(() => void 0);
@@ -114,23 +235,31 @@ export default class Client extends EventEmitter implements Socket {
         }
 
         this.emit("connecting");
-        const ws = this._ws = new WebSocket(this.uri, this.config.protocols, this.config);
+        const ws = this._ws = this.config.transport ?
+            this.config.transport(this._getUri(), this._getProtocols()) as any as WebSocket :
+            new WebSocket(this._getUri(), this._getProtocols(), this.config);
+        if ((ws.binaryType as string) === "blob") {
+            // for browser
+            ws.binaryType = "arraybuffer";
+        }
         if (ws.addEventListener) {
             ws.addEventListener("error", error => this.emit("error", error));
-            ws.addEventListener("close", ({ code, reason }) => {
-                this.emit("close");
-                this.emit("disconnect", code, reason);
-                this._ws = null;
+            ws.addEventListener("close", ({ code, reason }) => this._onClose(code, reason));
+            ws.addEventListener("message", ({ data }) => {
+                this._onHeartbeat();
+                this._messageHandler.handleMessage(this, data).catch(e => this.emit("error", e));
             });
-            ws.addEventListener("message", ({ data }) => this._messageHandler.handleMessage(this, data).catch(e => this.emit("error", e)));
         } else {
             ws.on("error", error => this.emit("error", error));
-            ws.on("close", (code, reason) => {
-                this.emit("close");
-                this.emit("disconnect", code, reason);
-                this._ws = null;
+            ws.on("close", (code, reason) => this._onClose(code, reason));
+            ws.on("message", data => {
+                this._onHeartbeat();
+                this._messageHandler.handleMessage(this, data).catch(e => this.emit("error", e));
             });
-            ws.on("message", data => this._messageHandler.handleMessage(this, data).catch(e => this.emit("error", e)));
+        }
+        if (typeof ws.ping === "function") {
+            // for node
+            ws.on("pong", () => this._onHeartbeat());
         }
 
         if (this.config.reconnection) {
@@ -158,7 +287,12 @@ export default class Client extends EventEmitter implements Socket {
             }
         });
 
+        const codecs = this._getCodecs();
+        this.codec = codecs.find(codec => codec.name === ws.protocol) || codecs[0];
+
+        this._startHeartbeat(ws);
         await this._sendBufferedMessages();
+        this._resubscribe();
         this.emit("connected");
     }
 
@@ -169,12 +303,12 @@ export default class Client extends EventEmitter implements Socket {
         this._skipReconnection = true;
         this._reconnecting = false;
         this._backoff.reset();
+        this._stopHeartbeat();
+        // the session on the server is closed too.
+        this._resumeToken = null;
 
-        // clear method call timeout.
-        for (const [timer] of this._responseHandlers) {
-            clearTimeout(timer);
-        }
-        this._responseHandlers.clear();
+        // reject pending method calls.
+        this._rejectResponseHandlers(new ConnectionClosedError());
 
         // clear reconnection timer.
         if (this._reconnectionSleepTimer) {
@@ -215,7 +349,7 @@ export default class Client extends EventEmitter implements Socket {
 
     send(data: Data, binary: boolean = false): void {
         if (binary && typeof data === "string") {
-            data = Buffer.from(data).buffer as any as ArrayBuffer;
+            data = Buffer.from(data);
         }
 
         if (!this.isConnected())  {
@@ -230,36 +364,212 @@ export default class Client extends EventEmitter implements Socket {
         this.sendingMessageBuffer.length = 0;
     }
 
-    notify(method: string, params?: object) {
+    notify<K extends MethodName<ServerMethods>>(method: K, params?: MethodParams<ServerMethods, K>) {
         const data: Notification = {
             jsonrpc: "2.0",
             method,
-            params
+            params: params as object
         };
-        this.send(JSON.stringify(data));
+        this._sendMessage(data);
     }
 
-    call(method: string, params: object = {}): Promise<any> {
+    call<K extends MethodName<ServerMethods>>(method: K, params: MethodParams<ServerMethods, K> = {} as any, options: CallOptions = {}): Promise<MethodResult<ServerMethods, K>> {
+        const { signal } = options;
+        if (signal && signal.aborted) {
+            return Promise.reject(new AbortError());
+        }
+
         const id = this._currentRequestId++;
         const data: Request = {
             jsonrpc: "2.0",
             method,
-            params,
+            params: params as object,
             id
         };
-        this.send(JSON.stringify(data));
+        const encoded = this._sendMessage(data);
 
+        const promise = this._waitForResponse(id, encoded);
+        if (options.retryOnReconnect) {
+            this._responseHandlers.get(id).retryData = encoded;
+        }
+        if (!signal) {
+            return promise;
+        }
+
+        const onAbort = () => this._cancelRequest(id);
+        const cleanup = () => signal.removeEventListener("abort", onAbort);
+        signal.addEventListener("abort", onAbort);
+        promise.then(cleanup, cleanup);
+
+        return promise;
+    }
+
+    /**
+     * Calls the streaming method which returns `AsyncIterable` or reports the progress.
+     * The stream ends by the final response, and throws if the method fails in the middle.
+     * Breaking the iteration cancels the request.
+     * @param method The name of the method to be invoked.
+     * @param params The parameters of the method.
+     * @param options Options of the call.
+     */
+    stream<K extends MethodName<ServerMethods>>(method: K, params: MethodParams<ServerMethods, K> = {} as any, options: StreamOptions = {}): AsyncIterableIterator<StreamChunk<ServerMethods, K>> {
+        const { signal } = options;
+        const id = this._currentRequestId++;
+        const stream = new ResultStream<StreamChunk<ServerMethods, K>>(() => this._cancelRequest(id), options.maxBufferedChunks);
+
+        if (signal && signal.aborted) {
+            stream.error(new AbortError());
+            return stream;
+        }
+
+        const data: Request = {
+            jsonrpc: "2.0",
+            method,
+            params: params as object,
+            id
+        };
+        const encoded = this._sendMessage(data);
+
+        this._streams.set(id, stream);
+        const onAbort = () => this._cancelRequest(id);
+        if (signal) {
+            signal.addEventListener("abort", onAbort);
+        }
+        const cleanup = () => {
+            this._streams.delete(id);
+            if (signal) {
+                signal.removeEventListener("abort", onAbort);
+            }
+        };
+        this._waitForResponse(id, encoded).then(() => {
+            cleanup();
+            stream.end();
+        }, e => {
+            cleanup();
+            stream.error(e);
+        });
+
+        return stream;
+    }
+
+    /**
+     * Creates a batch to send multiple calls and notifications in one message.
+     */
+    batch(): Batch<ServerMethods> {
+        return new Batch<ServerMethods>(this);
+    }
+
+    /**
+     * Subscribes the event of the server with `rpc.on`.
+     * The subscription is re-established automatically after reconnected.
+     * @param event The name of the event.
+     * @param handler The handler which receives the payload of the event.
+     */
+    async subscribe<E extends EventName<ServerEvents>>(event: E, handler: (payload: ServerEvents[E]) => void): Promise<void> {
+        let subscription = this._subscriptions.get(event);
+        if (subscription) {
+            subscription.handlers.add(handler);
+            return subscription.ready;
+        }
+
+        subscription = {
+            handlers: new Set([handler]),
+            ready: this._requestSubscription(SUBSCRIBE_METHOD, [event])
+        };
+        this._subscriptions.set(event, subscription);
+        this._messageHandler.builtins.set(event, (socket, payload) => this._dispatchEvent(event, payload));
+
+        try {
+            await subscription.ready;
+        } catch (e) {
+            if (this._subscriptions.get(event) === subscription) {
+                this._subscriptions.delete(event);
+                this._messageHandler.builtins.delete(event);
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Unsubscribes the event with `rpc.off`.
+     * @param event The name of the event.
+     * @param handler The handler to be removed. All handlers are removed if omitted.
+     */
+    async unsubscribe<E extends EventName<ServerEvents>>(event: E, handler?: (payload: ServerEvents[E]) => void): Promise<void> {
+        const subscription = this._subscriptions.get(event);
+        if (!subscription) {
+            return;
+        }
+
+        if (handler) {
+            subscription.handlers.delete(handler);
+            if (subscription.handlers.size !== 0) {
+                return;
+            }
+        }
+
+        this._subscriptions.delete(event);
+        this._messageHandler.builtins.delete(event);
+
+        // the subscriptions on the server are gone with the connection.
+        if (this.isConnected()) {
+            await this._requestSubscription(UNSUBSCRIBE_METHOD, [event]);
+        }
+    }
+
+    /** (internal) encodes and sends the message, returns the encoded data */
+    _sendMessage(message: object): Data {
+        const data = this.codec.encode(message) as Data;
+        this.send(data, this.codec.binary);
+        return data;
+    }
+
+    /** (internal) issues a new request id */
+    _nextRequestId(): number {
+        return this._currentRequestId++;
+    }
+
+    /**
+     * (internal) waits for the response of the request
+     * @param id The id of the request.
+     * @param data The encoded request message. (to tell whether it's still buffered)
+     */
+    _waitForResponse(id: number, data?: Data): Promise<any> {
         return new Promise((resolve, reject) => {
-            const timeout = setTimeout(() => {
-                this._responseHandlers.delete(id);
-                reject(new Error("JSON-RPC: method call timeout"));
-            }, this.config.methodCallTimeout);
-            this._responseHandlers.set(id, [timeout, resolve, reject]);
+            this._responseHandlers.set(id, { timer: this._startResponseTimer(id, reject), resolve, reject, data });
         });
     }
 
+    /**
+     * Sets the method with the descriptor. (e.g. JSON Schema of the params)
+     * @param method The name of the method.
+     * @param fn The method function.
+     * @param descriptor The descriptor of the method.
+     */
+    register<K extends MethodName<ClientMethods>>(method: K, fn: TypedMethodFunction<ClientMethods, K, Client<ServerMethods, ClientMethods, ServerEvents>>, descriptor?: MethodDescriptor): this {
+        this._messageHandler.register(method, fn, descriptor);
+        return this;
+    }
+
+    /**
+     * Creates the OpenRPC document of the methods.
+     * @param info The info object of the document. (default: `discover` option)
+     */
+    getOpenRPCDocument(info?: OpenRPCInfo): OpenRPCDocument {
+        return this._messageHandler.getOpenRPCDocument(info);
+    }
+
+    /**
+     * Adds a middleware around the method dispatch.
+     * @param middleware `(ctx, next) => Promise<void> | void`
+     */
+    use(middleware: Middleware<Client<ServerMethods, ClientMethods, ServerEvents>>): this {
+        this._messageHandler.use(middleware);
+        return this;
+    }
+
     isConnected() {
-        return this._ws !== null && this._ws.readyState === WebSocket.OPEN;
+        return !!this._ws && this._ws.readyState === WebSocket.OPEN;
     }
 
     private async reconnect() {
@@ -321,17 +631,240 @@ export default class Client extends EventEmitter implements Socket {
 
         this._responseHandlers.delete(response.id as number);
 
-        const [timer, resolve, reject] = handler;
-
-        clearTimeout(timer);
+        clearTimeout(handler.timer);
 
         if (isSuccessResponse(response)) {
-            resolve(response.result);
+            handler.resolve(response.result);
         } else {
-            reject(response.error);
+            handler.reject(RPCError.from(response.error));
+        }
+    }
+
+    private _startResponseTimer(id: number, reject: (reason?: any) => void): NodeJS.Timer {
+        return setTimeout(() => {
+            this._responseHandlers.delete(id);
+            reject(new Error("JSON-RPC: method call timeout"));
+        }, this.config.methodCallTimeout);
+    }
+
+    /**
+     * Passes the partial result to the stream and restarts the timeout of the call.
+     */
+    private _handleProgress(params: any) {
+        if (!params || typeof params !== "object") {
+            return;
+        }
+
+        const stream = this._streams.get(params.id);
+        const handler = this._responseHandlers.get(params.id);
+        if (!stream || !handler) {
+            return;
+        }
+
+        clearTimeout(handler.timer);
+        handler.timer = this._startResponseTimer(params.id, handler.reject);
+
+        stream.push(params.value);
+    }
+
+    /**
+     * Rejects the pending call and notifies the cancellation to the server.
+     */
+    private _cancelRequest(id: number) {
+        const handler = this._responseHandlers.get(id);
+
+        if (!handler) {
+            return;
+        }
+
+        this._responseHandlers.delete(id);
+
+        clearTimeout(handler.timer);
+        handler.reject(new AbortError());
+
+        const data: Notification = {
+            jsonrpc: "2.0",
+            method: CANCEL_REQUEST_METHOD,
+            params: { id }
+        };
+        try {
+            this._sendMessage(data);
+        } catch (e) {
+            // the server doesn't know the request if it couldn't be sent.
         }
     }
 
+    /**
+     * Calls `rpc.on` / `rpc.off` and rejects if any of the events failed.
+     */
+    private async _requestSubscription(method: string, events: string[]): Promise<void> {
+        const result: SubscriptionResult = await this.call(method as any, events as any) || {};
+        for (const event of events) {
+            if (result[event] !== "ok") {
+                throw new Error(`JSON-RPC: failed to ${method} "${event}": ${result[event]}`);
+            }
+        }
+    }
+
+    /**
+     * Re-establishes the subscriptions on the new connection.
+     */
+    private _resubscribe() {
+        const events = Array.from(this._subscriptions.keys());
+        if (events.length === 0) {
+            return;
+        }
+        this._requestSubscription(SUBSCRIBE_METHOD, events).catch(e => this.emit("error", e));
+    }
+
+    private _dispatchEvent(event: string, payload: any) {
+        const subscription = this._subscriptions.get(event);
+        if (!subscription) {
+            return;
+        }
+        for (const handler of subscription.handlers) {
+            try {
+                handler(payload);
+            } catch (e) {
+                this.emit("error", e);
+            }
+        }
+    }
+
+    /**
+     * Keeps the token to resume the session on the next connection.
+     */
+    private _handleSession(params: any) {
+        if (!isSessionParams(params)) {
+            return;
+        }
+        this.sessionId = params.id;
+        this._resumeToken = params.token;
+        this.emit("session", params.id, params.resumed === true);
+    }
+
+    /**
+     * The server is shutting down. (the connection will be closed with 1001)
+     */
+    private _handleShutdown() {
+        // the session is discarded by the server.
+        this._resumeToken = null;
+        this.emit("shutdown");
+    }
+
+    /**
+     * Presents the resume token on the reconnection.
+     */
+    private _getUri(): string {
+        if (!this._resumeToken) {
+            return this.uri;
+        }
+        const separator = this.uri.indexOf("?") === -1 ? "?" : "&";
+        return `${this.uri}${separator}${RESUME_TOKEN_PARAMETER}=${encodeURIComponent(this._resumeToken)}`;
+    }
+
+    private _getCodecs(): Codec[] {
+        return [].concat(this.config.codec || JSONCodec);
+    }
+
+    private _getProtocols(): string | string[] {
+        const codecs = this._getCodecs();
+        if (codecs.length === 1 && codecs[0] === JSONCodec) {
+            return this.config.protocols;
+        }
+        return codecs.map(codec => codec.name).concat(this.config.protocols || []).filter(protocol => protocol !== "");
+    }
+
+    private _onClose(code: number, reason: any) {
+        this._stopHeartbeat();
+        this.emit("close");
+        this.emit("disconnect", code, reason);
+        this._ws = null;
+        this._messageHandler.cancelPendingRequests(this);
+
+        const error = new ConnectionClosedError(code, reason);
+        if (this._skipReconnection || !this.config.reconnection) {
+            this._rejectResponseHandlers(error);
+            return;
+        }
+
+        for (const [id, handler] of this._responseHandlers) {
+            if (handler.data !== undefined && this.sendingMessageBuffer.indexOf(handler.data) !== -1) {
+                // not sent yet, will be sent by `_sendBufferedMessages()` after reconnected.
+                continue;
+            }
+            if (handler.retryData === undefined) {
+                // the response is lost with the connection.
+                this._responseHandlers.delete(id);
+                clearTimeout(handler.timer);
+                handler.reject(error);
+            } else if (this.sendingMessageBuffer.indexOf(handler.retryData) === -1) {
+                // will be sent by `_sendBufferedMessages()` after reconnected.
+                this.sendingMessageBuffer.push(handler.retryData);
+            }
+        }
+    }
+
+    /**
+     * Pings the server periodically to detect the dead connection. (e.g. half-open TCP after sleep)
+     */
+    private _startHeartbeat(ws: WebSocket) {
+        this._stopHeartbeat();
+
+        if (!this.config.pingInterval) {
+            return;
+        }
+
+        this._pingTimer = setInterval(() => {
+            if (this._pongTimer || ws.readyState !== WebSocket.OPEN) {
+                return;
+            }
+
+            this._pongTimer = setTimeout(() => {
+                this._pongTimer = null;
+                this.emit("heartbeat_timeout");
+                // `close()` waits for the closing handshake which never completes on the dead connection.
+                if (typeof ws.terminate === "function") {
+                    ws.terminate();
+                } else {
+                    ws.close(4000, "Heartbeat timeout");
+                }
+            }, this.config.pingTimeout);
+
+            if (typeof ws.ping === "function") {
+                ws.ping();
+            } else {
+                // any response is the proof of life. (even `Method not found` of the old servers)
+                this.call(PING_METHOD as any).catch(() => void 0);
+            }
+        }, this.config.pingInterval);
+    }
+
+    private _stopHeartbeat() {
+        clearInterval(this._pingTimer);
+        clearTimeout(this._pongTimer);
+        this._pingTimer = null;
+        this._pongTimer = null;
+    }
+
+    /**
+     * Any message from the server means the connection is alive.
+     */
+    private _onHeartbeat() {
+        if (this._pongTimer) {
+            clearTimeout(this._pongTimer);
+            this._pongTimer = null;
+        }
+    }
+
+    private _rejectResponseHandlers(reason: any) {
+        for (const handler of this._responseHandlers.values()) {
+            clearTimeout(handler.timer);
+            handler.reject(reason);
+        }
+        this._responseHandlers.clear();
+    }
+
     private _bufferSendingMessage(data: WebSocket.Data) {
         if (this.config.bufferSendingMessages) {
             this.sendingMessageBuffer.push(data);
@@ -354,3 +887,114 @@ export default class Client extends EventEmitter implements Socket {
         }
     }
 }
+
+/**
+ * Settled result of a call in the batch. (same as `Promise.allSettled()`)
+ */
+export type BatchResult = { status: "fulfilled"; value: any } | { status: "rejected"; reason: any };
+
+interface BatchEntry {
+    data: Request | Notification;
+    resolve?: (value?: any) => void;
+    reject?: (reason?: any) => void;
+    promise?: Promise<any>;
+}
+
+/**
+ * JSON-RPC 2.0 Batch
+ * @typeParam ServerMethods contract of the methods which the server provides.
+ */
+export class Batch<ServerMethods = any> {
+
+    private _entries: BatchEntry[] = [];
+    private _sent: boolean = false;
+
+    constructor(private _client: Client<ServerMethods>) {
+    }
+
+    /**
+     * Adds a method call to the batch.
+     * The returned promise will be settled by the response of each call after `#send()`.
+     * @param method The name of the method to be invoked.
+     * @param params The parameters of the method.
+     */
+    call<K extends MethodName<ServerMethods>>(method: K, params: MethodParams<ServerMethods, K> = {} as any): Promise<MethodResult<ServerMethods, K>> {
+        this._assertNotSent();
+
+        const entry: BatchEntry = {
+            data: {
+                jsonrpc: "2.0",
+                method,
+                params: params as object
+            }
+        };
+        entry.promise = new Promise((resolve, reject) => {
+            entry.resolve = resolve;
+            entry.reject = reject;
+        });
+        this._entries.push(entry);
+
+        return entry.promise;
+    }
+
+    /**
+     * Adds a notification to the batch.
+     * @param method The name of the method to be invoked.
+     * @param params The parameters of the method.
+     */
+    notify<K extends MethodName<ServerMethods>>(method: K, params?: MethodParams<ServerMethods, K>): this {
+        this._assertNotSent();
+
+        this._entries.push({
+            data: {
+                jsonrpc: "2.0",
+                method,
+                params: params as object
+            }
+        });
+
+        return this;
+    }
+
+    /**
+     * Sends the batch as one message.
+     * Resolves with the settled results of the calls in order. (notifications are not included)
+     */
+    async send(): Promise<BatchResult[]> {
+        this._assertNotSent();
+        this._sent = true;
+
+        if (this._entries.length === 0) {
+            return [];
+        }
+
+        const calls = this._entries.filter(entry => entry.promise);
+        for (const entry of calls) {
+            (entry.data as Request).id = this._client._nextRequestId();
+        }
+
+        try {
+            const encoded = this._client._sendMessage(this._entries.map(entry => entry.data));
+            // waits only after sent not to leave the handlers of the rejected batch.
+            for (const entry of calls) {
+                this._client._waitForResponse((entry.data as Request).id as number, encoded).then(entry.resolve, entry.reject);
+            }
+        } catch (e) {
+            for (const entry of calls) {
+                entry.reject(e);
+            }
+        }
+
+        // an all-notification batch gets no reply.
+        return Promise.all(calls.map(entry => entry.promise.then(
+            value => ({ status: "fulfilled", value }) as BatchResult,
+            reason => ({ status: "rejected", reason }) as BatchResult
+        )));
+    }
+
+    private _assertNotSent(): void {
+        if (this._sent) {
+            throw new Error("JSON-RPC: batch has already been sent");
+        }
+    }
+}
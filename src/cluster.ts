@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from "uuid";
+import { AdapterHost } from "./adapter";
+import { PubSubAdapter, PubSubAdapterOptions, PubSubClient } from "./pubsub";
+
+/**
+ * IPC message between the primary and the workers.
+ */
+interface ClusterMessage {
+    jsonrpc2wsCluster: "subscribe" | "unsubscribe" | "publish" | "numsub";
+    channel: string;
+    message?: string;
+    requestId?: string;
+    count?: number;
+}
+
+/**
+ * The IPC channel of the worker. (`process`)
+ */
+export interface WorkerProcess {
+    send?(message: any): any;
+    on(event: "message", listener: (message: any) => void): any;
+    removeListener(event: "message", listener: (message: any) => void): any;
+}
+
+/**
+ * The worker seen from the primary. (`cluster.Worker`)
+ */
+export interface ClusterWorker {
+    id: number;
+    send(message: any): any;
+}
+
+/**
+ * The `cluster` module seen from the primary.
+ */
+export interface ClusterPrimary {
+    on(event: "message", listener: (worker: ClusterWorker, message: any) => void): any;
+    on(event: "exit", listener: (worker: ClusterWorker) => void): any;
+}
+
+function isClusterMessage(message: any): message is ClusterMessage {
+    return typeof message === "object" && message !== null && typeof message.jsonrpc2wsCluster === "string";
+}
+
+/**
+ * Relays the messages of `ClusterPubSub` between the workers. Call this in the primary process.
+ * @param cluster The `cluster` module.
+ */
+export function setupClusterPrimary(cluster: ClusterPrimary): void {
+
+    // the number of the subscriptions by the channel and the worker.
+    const channels: Map<string, Map<ClusterWorker, number>> = new Map();
+
+    cluster.on("message", (worker, message) => {
+
+        if (!isClusterMessage(message)) {
+            return;
+        }
+
+        const subscribers = channels.get(message.channel) || new Map<ClusterWorker, number>();
+
+        switch (message.jsonrpc2wsCluster) {
+            case "subscribe":
+                subscribers.set(worker, (subscribers.get(worker) || 0) + 1);
+                channels.set(message.channel, subscribers);
+                break;
+            case "unsubscribe": {
+                const count = (subscribers.get(worker) || 0) - 1;
+                if (count > 0) {
+                    subscribers.set(worker, count);
+                } else {
+                    subscribers.delete(worker);
+                }
+                if (subscribers.size === 0) {
+                    channels.delete(message.channel);
+                }
+                break;
+            }
+            case "publish":
+                for (const subscriber of subscribers.keys()) {
+                    subscriber.send(message);
+                }
+                break;
+            case "numsub": {
+                let count = 0;
+                for (const n of subscribers.values()) {
+                    count += n;
+                }
+                worker.send({ ...message, count });
+                break;
+            }
+        }
+    });
+
+    cluster.on("exit", worker => {
+        for (const [channel, subscribers] of Array.from(channels)) {
+            subscribers.delete(worker);
+            if (subscribers.size === 0) {
+                channels.delete(channel);
+            }
+        }
+    });
+}
+
+/**
+ * Pub/sub over the IPC of the `cluster` module. Messages are relayed by `setupClusterPrimary()`.
+ */
+export class ClusterPubSub implements PubSubClient {
+
+    private _channels: Map<string, Set<(message: string) => void>> = new Map();
+    private _requests: Map<string, (count: number) => void> = new Map();
+    private _onMessage: (message: any) => void;
+
+    /**
+     * @param _process The IPC channel to the primary. (default: `process`)
+     */
+    constructor(private _process: WorkerProcess = process) {
+        this._onMessage = message => this._handleMessage(message);
+    }
+
+    publish(channel: string, message: string): void {
+        this._send({ jsonrpc2wsCluster: "publish", channel, message });
+    }
+
+    subscribe(channel: string, listener: (message: string) => void): void {
+
+        this._attachIfIdle();
+        if (this._channels.has(channel) === false) {
+            this._channels.set(channel, new Set());
+        }
+        this._channels.get(channel).add(listener);
+
+        this._send({ jsonrpc2wsCluster: "subscribe", channel });
+    }
+
+    unsubscribe(channel: string, listener: (message: string) => void): void {
+
+        const listeners = this._channels.get(channel);
+        if (!listeners || listeners.delete(listener) === false) {
+            return;
+        }
+        if (listeners.size === 0) {
+            this._channels.delete(channel);
+        }
+
+        this._send({ jsonrpc2wsCluster: "unsubscribe", channel });
+        this._detachIfIdle();
+    }
+
+    numSubscribers(channel: string): Promise<number> {
+
+        this._attachIfIdle();
+
+        const requestId = uuidv4();
+        const promise = new Promise<number>(resolve => this._requests.set(requestId, resolve));
+        this._send({ jsonrpc2wsCluster: "numsub", channel, requestId });
+
+        return promise;
+    }
+
+    private _handleMessage(message: any): void {
+
+        if (!isClusterMessage(message)) {
+            return;
+        }
+
+        if (message.jsonrpc2wsCluster === "numsub") {
+            const resolve = this._requests.get(message.requestId);
+            if (resolve) {
+                this._requests.delete(message.requestId);
+                this._detachIfIdle();
+                resolve(message.count);
+            }
+            return;
+        }
+
+        if (message.jsonrpc2wsCluster === "publish") {
+            for (const listener of Array.from(this._channels.get(message.channel) || [])) {
+                listener(message.message);
+            }
+        }
+    }
+
+    private _attachIfIdle(): void {
+        if (this._channels.size === 0 && this._requests.size === 0) {
+            this._process.on("message", this._onMessage);
+        }
+    }
+
+    private _detachIfIdle(): void {
+        // avoid leaking the listener on `process`.
+        if (this._channels.size === 0 && this._requests.size === 0) {
+            this._process.removeListener("message", this._onMessage);
+        }
+    }
+
+    private _send(message: ClusterMessage): void {
+        if (!this._process.send) {
+            throw new Error("ClusterPubSub: IPC channel is not available (not a worker process)");
+        }
+        this._process.send(message);
+    }
+}
+
+/**
+ * Adapter for the workers of the `cluster` module. `setupClusterPrimary()` is required in the primary.
+ */
+export class ClusterAdapter extends PubSubAdapter {
+    constructor(host: AdapterHost, options: Partial<PubSubAdapterOptions> = {}) {
+        super(host, { pubsub: new ClusterPubSub(), ...options });
+    }
+}
@@ -0,0 +1,106 @@
+import * as msgpack from "./msgpack";
+import * as cbor from "./cbor";
+
+/**
+ * Serializer of the messages.
+ */
+export interface Codec {
+    /**
+     * The name of the codec. This is also used as the WebSocket subprotocol for the negotiation.
+     */
+    readonly name: string;
+    /**
+     * Sends the encoded messages as binary frames or not.
+     */
+    readonly binary: boolean;
+    /**
+     * Encodes the message.
+     * @param value The message object.
+     */
+    encode(value: any): string | Uint8Array;
+    /**
+     * Decodes the message. Throws if the data is invalid.
+     * @param data The received data.
+     */
+    decode(data: string | Uint8Array): any;
+}
+
+/**
+ * JSON codec (default)
+ * Binary frames are decoded as UTF-8 JSON text.
+ */
+export const JSONCodec: Codec = Object.freeze({
+    name: "jsonrpc2.json",
+    binary: false,
+    encode(value: any): string {
+        return JSON.stringify(value);
+    },
+    decode(data: string | Uint8Array): any {
+        if (typeof data !== "string") {
+            data = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString();
+        }
+        return JSON.parse(data);
+    }
+});
+
+/**
+ * MessagePack codec
+ * `Uint8Array` (and `Buffer`) in the messages is passed through as bin.
+ */
+export const MessagePackCodec: Codec = Object.freeze({
+    name: "jsonrpc2.msgpack",
+    binary: true,
+    encode(value: any): Uint8Array {
+        return msgpack.encode(value);
+    },
+    decode(data: string | Uint8Array): any {
+        if (typeof data === "string") {
+            throw new Error("MessagePack: text frame is not supported");
+        }
+        return msgpack.decode(data);
+    }
+});
+
+/**
+ * CBOR codec
+ * `Uint8Array` (and `Buffer`) in the messages is passed through as byte string.
+ */
+export const CBORCodec: Codec = Object.freeze({
+    name: "jsonrpc2.cbor",
+    binary: true,
+    encode(value: any): Uint8Array {
+        return cbor.encode(value);
+    },
+    decode(data: string | Uint8Array): any {
+        if (typeof data === "string") {
+            throw new Error("CBOR: text frame is not supported");
+        }
+        return cbor.decode(data);
+    }
+});
+
+/**
+ * Selects the codec by the WebSocket subprotocols offered by the client.
+ * The order of the client's offer takes precedence.
+ * @param codecs The codecs supported by the server.
+ * @param protocols The subprotocols offered by the client.
+ * @returns The selected codec, `undefined` if nothing matched.
+ */
+export function negotiateCodec(codecs: Codec[], protocols: Iterable<string>): Codec | undefined {
+    for (const protocol of protocols) {
+        const codec = codecs.find(c => c.name === protocol);
+        if (codec) {
+            return codec;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether the subprotocol is the name of a codec. (`jsonrpc2.*`)
+ * The codec names which the server doesn't support must not be agreed.
+ * @param protocol The subprotocol.
+ */
+export function isCodecName(protocol: string): boolean {
+    return protocol.startsWith("jsonrpc2.");
+}
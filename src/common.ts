@@ -141,13 +141,25 @@ export interface Error {
     data?: any;
 }
 
+/**
+ * Check the value is a JSON-RPC 2.0 Error Object or not
+ * @param value the value which will be checked.
+ */
+export function isErrorObject(value: any): value is Error {
+    return typeof value === "object" && value !== null && Number.isInteger(value.code) && typeof value.message === "string";
+}
+
 export const enum ErrorCode {
     ParseError = -32700,
     InvalidRequest = -32600,
     MethodNotFound = -32601,
     InvalidParams = -32602,
     InternalError = -32603,
-    ServerError = -32000
+    ServerError = -32000,
+    Unauthorized = -32001,
+    LimitExceeded = -32005,
+    ShuttingDown = -32006,
+    RequestCancelled = -32800
 }
 
 /**
@@ -159,7 +171,11 @@ export const errorCodeMap = new Map([
     [-32601, "Method not found"],
     [-32602, "Invalid params"],
     [-32603, "Internal error"],
-    [-32000, "Server error"]
+    [-32000, "Server error"],
+    [-32001, "Unauthorized"],
+    [-32005, "Limit exceeded"],
+    [-32006, "Server shutting down"],
+    [-32800, "Request cancelled"]
 ]);
 
 /**
@@ -0,0 +1,181 @@
+import { Error as ErrorObject, ErrorCode, createError, errorCodeMap, isErrorObject } from "./common";
+
+/**
+ * Rejects the WebSocket handshake with a HTTP status.
+ * Throw this in the `authenticate` hook of the server.
+ */
+export class AuthenticationError extends Error {
+
+    /**
+     * @param status HTTP status code of the handshake response.
+     * @param message HTTP reason phrase.
+     */
+    constructor(readonly status: number = 401, message: string = "Unauthorized") {
+        super(message);
+        this.name = "AuthenticationError";
+    }
+}
+
+/**
+ * Rejects the method call which is aborted by `AbortSignal`.
+ */
+export class AbortError extends Error {
+
+    constructor(message: string = "JSON-RPC: method call aborted") {
+        super(message);
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * Rejects the pending method call when the connection is closed.
+ */
+export class ConnectionClosedError extends Error {
+
+    /**
+     * @param code The close code of the connection. (if available)
+     * @param reason The close reason of the connection. (if available)
+     */
+    constructor(readonly code?: number, readonly reason?: string) {
+        super("JSON-RPC: connection closed");
+        this.name = "ConnectionClosedError";
+    }
+}
+
+/**
+ * Error of the method call which is sent as the JSON-RPC error object.
+ * Throw this (or the subclass) in the methods to respond with the exact code, message and data.
+ * The client rejects the calls with the instance of the subclass by the code.
+ */
+export class RPCError extends Error {
+
+    /**
+     * Reconstructs the error from the error object of the response.
+     * The invalid error object is `InternalError` which has it as the data.
+     * @param error The error object.
+     */
+    static from(error: ErrorObject): RPCError {
+        if (!isErrorObject(error)) {
+            return new InternalError("Invalid error object", error);
+        }
+        const ErrorClass = errorClasses.get(error.code);
+        return ErrorClass ? new ErrorClass(error.message, error.data) : new RPCError(error.code, error.message, error.data);
+    }
+
+    readonly code: number;
+    readonly data?: any;
+
+    /**
+     * @param code A Number that indicates the error type that occurred. (Integer)
+     * @param message A String providing a short description of the error. (the message of the code if omitted)
+     * @param data A Primitive or Structured value that contains additional information about the error.
+     */
+    constructor(code: number, message?: string, data?: any) {
+        super(message || errorCodeMap.get(code) || "Server error");
+        this.name = "RPCError";
+        this.code = code;
+        if (data !== undefined) {
+            this.data = data;
+        }
+    }
+
+    /**
+     * Returns the error object of the response.
+     */
+    toJSON(): ErrorObject {
+        return createError(this.code, this.message, this.data);
+    }
+}
+
+export class ParseError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.ParseError, message, data);
+        this.name = "ParseError";
+    }
+}
+
+export class InvalidRequestError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.InvalidRequest, message, data);
+        this.name = "InvalidRequestError";
+    }
+}
+
+export class MethodNotFoundError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.MethodNotFound, message, data);
+        this.name = "MethodNotFoundError";
+    }
+}
+
+export class InvalidParamsError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.InvalidParams, message, data);
+        this.name = "InvalidParamsError";
+    }
+}
+
+export class InternalError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.InternalError, message, data);
+        this.name = "InternalError";
+    }
+}
+
+export class ServerError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.ServerError, message, data);
+        this.name = "ServerError";
+    }
+}
+
+export class UnauthorizedError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.Unauthorized, message, data);
+        this.name = "UnauthorizedError";
+    }
+}
+
+export class LimitExceededError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.LimitExceeded, message, data);
+        this.name = "LimitExceededError";
+    }
+}
+
+export class ShuttingDownError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.ShuttingDown, message, data);
+        this.name = "ShuttingDownError";
+    }
+}
+
+export class RequestCancelledError extends RPCError {
+
+    constructor(message?: string, data?: any) {
+        super(ErrorCode.RequestCancelled, message, data);
+        this.name = "RequestCancelledError";
+    }
+}
+
+const errorClasses = new Map<number, new (message?: string, data?: any) => RPCError>([
+    [ErrorCode.ParseError, ParseError],
+    [ErrorCode.InvalidRequest, InvalidRequestError],
+    [ErrorCode.MethodNotFound, MethodNotFoundError],
+    [ErrorCode.InvalidParams, InvalidParamsError],
+    [ErrorCode.InternalError, InternalError],
+    [ErrorCode.ServerError, ServerError],
+    [ErrorCode.Unauthorized, UnauthorizedError],
+    [ErrorCode.LimitExceeded, LimitExceededError],
+    [ErrorCode.ShuttingDown, ShuttingDownError],
+    [ErrorCode.RequestCancelled, RequestCancelledError]
+]);
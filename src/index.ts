@@ -1,2 +1,16 @@
 export { default as Server } from "./server";
 export { default as Client } from "./client";
+export { default as Router, Route } from "./router";
+export { Codec, JSONCodec, MessagePackCodec, CBORCodec } from "./codec";
+export { AuthenticationError, AbortError, ConnectionClosedError, RPCError, ParseError, InvalidRequestError, MethodNotFoundError, InvalidParamsError, InternalError, ServerError, UnauthorizedError, LimitExceededError, ShuttingDownError, RequestCancelledError } from "./errors";
+export { CallContext, Middleware, MethodDescriptor, MethodName, MethodParams, MethodResult, StreamChunk, TypedMethodMap, MethodProxy } from "./MessageHandler";
+export { JSONSchema, ValidationError, validate } from "./schema";
+export { Adapter, AdapterFactory, AdapterHost, BroadcastPacket, BroadcastOptions, InMemoryAdapter } from "./adapter";
+export { PubSubClient, PubSubAdapterOptions, PubSubAdapter, LocalPubSub } from "./pubsub";
+export { ClusterAdapter, ClusterPubSub, setupClusterPrimary } from "./cluster";
+export { EventName, EventOptions, SubscriptionStatus, SubscriptionResult } from "./subscription";
+export { SessionOptions, SessionParams } from "./session";
+export { LimitOptions, LimitViolation, RateLimit } from "./limits";
+export { Transport, StreamTransport, MessagePortTransport, MessagePortLike, HTTPTransport } from "./transport";
+export { LoopbackLink, LoopbackOptions, LoopbackPair, LoopbackFrame, LoopbackDirection, createLoopbackPair } from "./loopback";
+export { OpenRPCDocument, OpenRPCInfo, OpenRPCMethod, OpenRPCExample, writeOpenRPCDocument } from "./openrpc";
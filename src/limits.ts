@@ -0,0 +1,126 @@
+/**
+ * Token bucket rate limit.
+ */
+export interface RateLimit {
+    /**
+     * how many calls are allowed per `interval`
+     */
+    limit: number;
+    /**
+     * (ms) the period of `limit` (default: 1000)
+     */
+    interval?: number;
+    /**
+     * how many calls are allowed at once (default: `limit`)
+     */
+    burst?: number;
+}
+
+/**
+ * Limits of the incoming messages. (per socket)
+ */
+export interface LimitOptions {
+    /**
+     * max bytes of a message
+     */
+    maxPayload?: number;
+    /**
+     * max number of the calls in a batch
+     */
+    maxBatchLength?: number;
+    /**
+     * max nesting depth of the objects and arrays in a message (the batch array counts)
+     */
+    maxDepth?: number;
+    /**
+     * rate limit of all the calls (including the built-in methods such as `rpc.ping` and `$/cancelRequest`)
+     */
+    rate?: RateLimit;
+    /**
+     * rate limits by the method (applied in addition to `rate`)
+     */
+    methods?: { [method: string]: RateLimit };
+    /**
+     * What to do on the violation.
+     * `"error"`: responds with `Limit exceeded` (-32005) error. (default)
+     * `"close"`: closes the connection with 1008 (Policy Violation).
+     */
+    action?: "error" | "close";
+}
+
+/**
+ * Detail of the violation. (`data` of the error and the payload of `limit_exceeded` event)
+ */
+export interface LimitViolation {
+    /**
+     * the name of the exceeded limit
+     */
+    limit: "maxPayload" | "maxBatchLength" | "maxDepth" | "rate";
+    /**
+     * the method which is rate limited
+     */
+    method?: string;
+    /**
+     * (ms) how long to wait before the next call is allowed
+     */
+    retryAfter?: number;
+}
+
+/**
+ * Token bucket for the rate limit.
+ */
+export class TokenBucket {
+
+    private _capacity: number;
+    private _interval: number;
+    private _tokens: number;
+    private _updatedAt: number = Date.now();
+
+    constructor(private _rate: RateLimit) {
+        this._capacity = _rate.burst || _rate.limit;
+        this._interval = _rate.interval || 1000;
+        this._tokens = this._capacity;
+    }
+
+    /**
+     * Takes a token.
+     * Returns `0` if allowed, otherwise how many ms to wait for the next token.
+     */
+    take(): number {
+
+        const now = Date.now();
+        this._tokens = Math.min(this._capacity, this._tokens + (now - this._updatedAt) * this._rate.limit / this._interval);
+        this._updatedAt = now;
+
+        if (this._tokens >= 1) {
+            this._tokens -= 1;
+            return 0;
+        }
+
+        return Math.ceil((1 - this._tokens) * this._interval / this._rate.limit);
+    }
+}
+
+/**
+ * Checks the nesting depth of the value without the recursion.
+ * @returns `true` if the depth exceeds `max`.
+ */
+export function exceedsDepth(value: any, max: number): boolean {
+
+    const stack: [any, number][] = [[value, 1]];
+
+    while (stack.length !== 0) {
+        const [current, depth] = stack.pop();
+        if (current === null || typeof current !== "object" || ArrayBuffer.isView(current)) {
+            continue;
+        }
+        if (depth > max) {
+            return true;
+        }
+        for (const key of Object.keys(current)) {
+            stack.push([current[key], depth + 1]);
+        }
+    }
+
+    return false;
+}
@@ -0,0 +1,293 @@
+import * as http from "http";
+import Server from "./server";
+import Client, { Options as ClientOptions } from "./client";
+import { BaseTransport, ReadyState, Transport } from "./transport";
+import { JSONCodec, negotiateCodec } from "./codec";
+
+/**
+ * Direction of the frame on the link.
+ */
+export type LoopbackDirection = "toServer" | "toClient";
+
+/**
+ * Frame which is held by `LoopbackLink#pause()`.
+ */
+export interface LoopbackFrame {
+    direction: LoopbackDirection;
+    /**
+     * the message, or `undefined` for the ping and pong
+     */
+    data?: any;
+}
+
+export interface LoopbackOptions {
+    /**
+     * (ms) delay of each frame (default: 0)
+     */
+    latency?: number;
+    /**
+     * probability to drop each frame (default: 0)
+     */
+    dropRate?: number;
+    /**
+     * random number generator for `dropRate`. pass a seeded one for the reproducible tests. (default: `Math.random`)
+     */
+    random?: () => number;
+    /**
+     * options of the client. (`transport` is overwritten)
+     */
+    client?: ClientOptions;
+}
+
+export interface LoopbackPair<ServerMethods = any, ClientMethods = any, ServerEvents = any> {
+    client: Client<ServerMethods, ClientMethods, ServerEvents>;
+    link: LoopbackLink;
+}
+
+interface Frame extends LoopbackFrame {
+    kind: "message" | "ping" | "pong";
+    to: LoopbackTransport;
+}
+
+/**
+ * One end of the in-process connection.
+ */
+class LoopbackTransport extends BaseTransport {
+
+    peer: LoopbackTransport;
+    protocol: string = "";
+    bufferedAmount: number = 0;
+
+    constructor(private _link: LoopbackLink, readonly direction: LoopbackDirection) {
+        super();
+    }
+
+    close(code: number = 1000, reason: string = ""): void {
+        if (this.readyState === ReadyState.CLOSED) {
+            return;
+        }
+        super.close(code, reason);
+        this._link._schedule(() => this.peer._closed(code, reason));
+    }
+
+    terminate(): void {
+        this.close(1006, "");
+    }
+
+    ping(): void {
+        this._link._transmit({ kind: "ping", direction: this.direction, to: this.peer });
+    }
+
+    /** (internal) receives the frame from the peer */
+    _receive(frame: Frame): void {
+
+        if (this.readyState !== ReadyState.OPEN) {
+            return;
+        }
+
+        switch (frame.kind) {
+            case "message":
+                this.emit("message", frame.data);
+                break;
+            case "ping":
+                // answered automatically like `ws`.
+                this._link._transmit({ kind: "pong", direction: this.direction, to: this.peer });
+                break;
+            case "pong":
+                this.emit("pong");
+                break;
+        }
+    }
+
+    /** (internal) fails the connection before open */
+    _refuse(): void {
+        this.readyState = ReadyState.CLOSING;
+        process.nextTick(() => {
+            this.emit("error", new Error("JSON-RPC: loopback connection refused"));
+            this._closed(1006, "");
+        });
+    }
+
+    /** (internal) closes the connection without the closing handshake */
+    _lose(code: number, reason: string): void {
+        this._closed(code, reason);
+    }
+
+    /** (internal) opens the server end synchronously */
+    _open(): void {
+        this.readyState = ReadyState.OPEN;
+    }
+
+    protected _write(data: any): void {
+        // copies the binary like the network.
+        this._link._transmit({ kind: "message", direction: this.direction, to: this.peer, data: Buffer.isBuffer(data) ? Buffer.from(data) : data });
+    }
+
+    protected _end(): void {
+        // the peer is closed by `close()`.
+    }
+}
+
+/**
+ * In-process link between a server and a client with the controls of the network conditions.
+ * The frames are delivered by `setTimeout()`, so fake timers (e.g. `@sinonjs/fake-timers`) control them too.
+ */
+export class LoopbackLink {
+
+    /** (ms) delay of each frame */
+    latency: number;
+    /** probability to drop each frame */
+    dropRate: number;
+    /** `false` refuses the new connections. (e.g. the server is unreachable) */
+    online: boolean = true;
+
+    private _random: () => number;
+    private _dropCounts: { [direction in LoopbackDirection]: number } = { toServer: 0, toClient: 0 };
+    private _held: Frame[] = null;
+    private _connection: [LoopbackTransport, LoopbackTransport] = null;
+
+    constructor(readonly server: Server, options: LoopbackOptions = {}) {
+        this.latency = options.latency || 0;
+        this.dropRate = options.dropRate || 0;
+        this._random = options.random || Math.random;
+    }
+
+    /**
+     * Whether the client is connected to the server through the link.
+     */
+    get connected(): boolean {
+        return !!this._connection && this._connection[0].readyState === ReadyState.OPEN;
+    }
+
+    /**
+     * Creates the client end of a new connection and accepts the server end. (the `transport` factory of the client)
+     * @param uri The URI of the client. (passed to the server as the URL of the request, e.g. the resume token)
+     * @param protocols The subprotocols which are offered by the client.
+     */
+    connect(uri: string = "", protocols: string | string[] = []): Transport {
+
+        const clientEnd = new LoopbackTransport(this, "toServer");
+        if (!this.online) {
+            clientEnd._refuse();
+            return clientEnd;
+        }
+
+        const serverEnd = new LoopbackTransport(this, "toClient");
+        clientEnd.peer = serverEnd;
+        serverEnd.peer = clientEnd;
+
+        const codec = negotiateCodec([].concat(this.server.options.codec || JSONCodec), [].concat(protocols));
+        if (codec) {
+            clientEnd.protocol = serverEnd.protocol = codec.name;
+        }
+
+        this._connection = [clientEnd, serverEnd];
+        clientEnd.once("close", () => {
+            if (this._connection && this._connection[0] === clientEnd) {
+                this._connection = null;
+            }
+        });
+
+        serverEnd._open();
+        this.server.accept(serverEnd, { url: uri, headers: {} } as http.IncomingMessage);
+
+        return clientEnd;
+    }
+
+    /**
+     * Drops the next frames.
+     * @param count The number of the frames to be dropped.
+     * @param direction The direction of the frames. (both if omitted)
+     */
+    drop(count: number = 1, direction?: LoopbackDirection): void {
+        for (const d of direction ? [direction] : ["toServer", "toClient"] as LoopbackDirection[]) {
+            this._dropCounts[d] += count;
+        }
+    }
+
+    /**
+     * Holds the frames until `resume()`.
+     */
+    pause(): void {
+        if (!this._held) {
+            this._held = [];
+        }
+    }
+
+    /**
+     * Delivers the held frames.
+     * @param reorder Returns the frames in the order to be delivered. e.g. `frames => frames.reverse()`
+     */
+    resume(reorder?: (frames: LoopbackFrame[]) => LoopbackFrame[]): void {
+
+        const held = this._held || [];
+        this._held = null;
+
+        const frames = reorder ? reorder(held.slice()) as Frame[] : held;
+        for (const frame of frames) {
+            this._schedule(() => frame.to._receive(frame));
+        }
+    }
+
+    /**
+     * Loses the current connection without the closing handshake. (e.g. network failure)
+     * Both ends are closed with the code immediately.
+     * @param code The close code. (default: 1006 Abnormal Closure)
+     * @param reason The close reason.
+     */
+    disconnect(code: number = 1006, reason: string = ""): void {
+
+        if (!this._connection) {
+            return;
+        }
+
+        const [clientEnd, serverEnd] = this._connection;
+        this._connection = null;
+        serverEnd._lose(code, reason);
+        clientEnd._lose(code, reason);
+    }
+
+    /** (internal) sends the frame by the conditions */
+    _transmit(frame: Frame): void {
+
+        if (this._held) {
+            this._held.push(frame);
+            return;
+        }
+
+        if (this._dropCounts[frame.direction] > 0) {
+            this._dropCounts[frame.direction]--;
+            return;
+        }
+        if (this.dropRate > 0 && this._random() < this.dropRate) {
+            return;
+        }
+
+        this._schedule(() => frame.to._receive(frame));
+    }
+
+    /** (internal) runs the task after the latency */
+    _schedule(task: () => void): void {
+        setTimeout(task, this.latency);
+    }
+}
+
+/**
+ * Links the server and a new client in-process without the network. (for the tests)
+ * The client connects through the link on each (re)connection.
+ * @param server The server. (`wss` is not necessary)
+ * @param options Options of the link and the client.
+ */
+export function createLoopbackPair<ServerMethods = any, ClientMethods = any, ServerEvents = any>(
+    server: Server<ServerMethods, ClientMethods, ServerEvents>,
+    options: LoopbackOptions = {}
+): LoopbackPair<ServerMethods, ClientMethods, ServerEvents> {
+
+    const link = new LoopbackLink(server, options);
+    const client = new Client<ServerMethods, ClientMethods, ServerEvents>("loopback:", {
+        ...options.client,
+        transport: (uri, protocols) => link.connect(uri, protocols)
+    });
+
+    return { client, link };
+}
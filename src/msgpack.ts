@@ -0,0 +1,426 @@
+/**
+ * MessagePack encoder / decoder.
+ * Values are converted like `JSON.stringify()` except `Uint8Array` (and `Buffer`) which is encoded as bin.
+ * https://github.com/msgpack/msgpack/blob/master/spec.md
+ */
+
+const TIMESTAMP_EXT_TYPE = -1;
+
+/**
+ * Encodes the value to MessagePack.
+ * @param value The value to be encoded.
+ */
+export function encode(value: any): Uint8Array {
+    const encoder = new Encoder();
+    encoder.write(value);
+    return encoder.finish();
+}
+
+/**
+ * Decodes the MessagePack to the value.
+ * `bin` is decoded as `Uint8Array` (`Buffer` in Node.js), `timestamp` extension as `Date`.
+ * @param data The data to be decoded.
+ */
+export function decode(data: Uint8Array): any {
+    const decoder = new Decoder(data);
+    const value = decoder.read();
+    if (decoder.offset !== data.length) {
+        throw new Error("MessagePack: extra bytes found");
+    }
+    return value;
+}
+
+class Encoder {
+
+    private _buffer: Buffer = Buffer.allocUnsafe(256);
+    private _offset: number = 0;
+
+    write(value: any): void {
+
+        if (value === null || value === undefined) {
+            this._writeUint8(0xc0);
+        } else if (value === false) {
+            this._writeUint8(0xc2);
+        } else if (value === true) {
+            this._writeUint8(0xc3);
+        } else if (typeof value === "number") {
+            this._writeNumber(value);
+        } else if (typeof value === "string") {
+            this._writeString(value);
+        } else if (value instanceof Uint8Array) {
+            this._writeBinary(value);
+        } else if (ArrayBuffer.isView(value)) {
+            this._writeBinary(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        } else if (value instanceof ArrayBuffer) {
+            this._writeBinary(new Uint8Array(value));
+        } else if (typeof value.toJSON === "function") {
+            this.write(value.toJSON());
+        } else if (Array.isArray(value)) {
+            this._writeArray(value);
+        } else if (typeof value === "object") {
+            this._writeMap(value);
+        } else {
+            // functions, symbols and bigints are not serializable like JSON.
+            this._writeUint8(0xc0);
+        }
+    }
+
+    finish(): Uint8Array {
+        return this._buffer.subarray(0, this._offset);
+    }
+
+    private _writeNumber(value: number): void {
+
+        if (Number.isInteger(value) === false || Math.abs(value) > 0xffffffff) {
+            if (isFinite(value) === false) {
+                // NaN and Infinity are `null` in JSON.
+                this._writeUint8(0xc0);
+                return;
+            }
+            this._ensure(9);
+            this._buffer[this._offset++] = 0xcb;
+            this._buffer.writeDoubleBE(value, this._offset);
+            this._offset += 8;
+            return;
+        }
+
+        if (value >= 0) {
+            if (value < 0x80) {
+                this._writeUint8(value);
+            } else if (value < 0x100) {
+                this._writeUint8(0xcc);
+                this._writeUint8(value);
+            } else if (value < 0x10000) {
+                this._writeUint8(0xcd);
+                this._writeUint16(value);
+            } else {
+                this._writeUint8(0xce);
+                this._writeUint32(value);
+            }
+        } else {
+            if (value >= -0x20) {
+                this._writeUint8(value & 0xff);
+            } else if (value >= -0x80) {
+                this._ensure(2);
+                this._buffer[this._offset++] = 0xd0;
+                this._buffer.writeInt8(value, this._offset++);
+            } else if (value >= -0x8000) {
+                this._ensure(3);
+                this._buffer[this._offset++] = 0xd1;
+                this._buffer.writeInt16BE(value, this._offset);
+                this._offset += 2;
+            } else if (value >= -0x80000000) {
+                this._ensure(5);
+                this._buffer[this._offset++] = 0xd2;
+                this._buffer.writeInt32BE(value, this._offset);
+                this._offset += 4;
+            } else {
+                this._ensure(9);
+                this._buffer[this._offset++] = 0xcb;
+                this._buffer.writeDoubleBE(value, this._offset);
+                this._offset += 8;
+            }
+        }
+    }
+
+    private _writeString(value: string): void {
+
+        const length = Buffer.byteLength(value);
+
+        if (length < 0x20) {
+            this._writeUint8(0xa0 | length);
+        } else if (length < 0x100) {
+            this._writeUint8(0xd9);
+            this._writeUint8(length);
+        } else if (length < 0x10000) {
+            this._writeUint8(0xda);
+            this._writeUint16(length);
+        } else {
+            this._writeUint8(0xdb);
+            this._writeUint32(length);
+        }
+
+        this._ensure(length);
+        this._buffer.write(value, this._offset, length, "utf8");
+        this._offset += length;
+    }
+
+    private _writeBinary(value: Uint8Array): void {
+
+        const length = value.length;
+
+        if (length < 0x100) {
+            this._writeUint8(0xc4);
+            this._writeUint8(length);
+        } else if (length < 0x10000) {
+            this._writeUint8(0xc5);
+            this._writeUint16(length);
+        } else {
+            this._writeUint8(0xc6);
+            this._writeUint32(length);
+        }
+
+        this._ensure(length);
+        this._buffer.set(value, this._offset);
+        this._offset += length;
+    }
+
+    private _writeArray(value: any[]): void {
+
+        const length = value.length;
+
+        if (length < 0x10) {
+            this._writeUint8(0x90 | length);
+        } else if (length < 0x10000) {
+            this._writeUint8(0xdc);
+            this._writeUint16(length);
+        } else {
+            this._writeUint8(0xdd);
+            this._writeUint32(length);
+        }
+
+        for (const item of value) {
+            // `undefined` in array is `null` in JSON.
+            this.write(item);
+        }
+    }
+
+    private _writeMap(value: { [key: string]: any }): void {
+
+        // `undefined` and functions in object are omitted in JSON.
+        const keys = Object.keys(value).filter(key => value[key] !== undefined && typeof value[key] !== "function");
+        const length = keys.length;
+
+        if (length < 0x10) {
+            this._writeUint8(0x80 | length);
+        } else if (length < 0x10000) {
+            this._writeUint8(0xde);
+            this._writeUint16(length);
+        } else {
+            this._writeUint8(0xdf);
+            this._writeUint32(length);
+        }
+
+        for (const key of keys) {
+            this._writeString(key);
+            this.write(value[key]);
+        }
+    }
+
+    private _writeUint8(value: number): void {
+        this._ensure(1);
+        this._buffer[this._offset++] = value;
+    }
+
+    private _writeUint16(value: number): void {
+        this._ensure(2);
+        this._buffer.writeUInt16BE(value, this._offset);
+        this._offset += 2;
+    }
+
+    private _writeUint32(value: number): void {
+        this._ensure(4);
+        this._buffer.writeUInt32BE(value, this._offset);
+        this._offset += 4;
+    }
+
+    private _ensure(size: number): void {
+
+        if (this._offset + size <= this._buffer.length) {
+            return;
+        }
+
+        const buffer = Buffer.allocUnsafe(Math.max(this._buffer.length * 2, this._offset + size));
+        this._buffer.copy(buffer, 0, 0, this._offset);
+        this._buffer = buffer;
+    }
+}
+
+class Decoder {
+
+    offset: number = 0;
+
+    private _buffer: Buffer;
+
+    constructor(data: Uint8Array) {
+        this._buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    read(): any {
+
+        const type = this._readUint8();
+
+        if (type < 0x80) {
+            return type;
+        }
+        if (type >= 0xe0) {
+            return type - 0x100;
+        }
+        if ((type & 0xf0) === 0x80) {
+            return this._readMap(type & 0x0f);
+        }
+        if ((type & 0xf0) === 0x90) {
+            return this._readArray(type & 0x0f);
+        }
+        if ((type & 0xe0) === 0xa0) {
+            return this._readString(type & 0x1f);
+        }
+
+        switch (type) {
+            case 0xc0:
+                return null;
+            case 0xc2:
+                return false;
+            case 0xc3:
+                return true;
+            case 0xc4:
+                return this._readBinary(this._readUint8());
+            case 0xc5:
+                return this._readBinary(this._readUint16());
+            case 0xc6:
+                return this._readBinary(this._readUint32());
+            case 0xc7:
+                return this._readExt(this._readUint8());
+            case 0xc8:
+                return this._readExt(this._readUint16());
+            case 0xc9:
+                return this._readExt(this._readUint32());
+            case 0xca:
+                return this._readFixed(4, () => this._buffer.readFloatBE(this.offset));
+            case 0xcb:
+                return this._readFixed(8, () => this._buffer.readDoubleBE(this.offset));
+            case 0xcc:
+                return this._readUint8();
+            case 0xcd:
+                return this._readUint16();
+            case 0xce:
+                return this._readUint32();
+            case 0xcf:
+                return this._readFixed(8, () => this._buffer.readUInt32BE(this.offset) * 0x100000000 + this._buffer.readUInt32BE(this.offset + 4));
+            case 0xd0:
+                return this._readFixed(1, () => this._buffer.readInt8(this.offset));
+            case 0xd1:
+                return this._readFixed(2, () => this._buffer.readInt16BE(this.offset));
+            case 0xd2:
+                return this._readFixed(4, () => this._buffer.readInt32BE(this.offset));
+            case 0xd3:
+                return this._readFixed(8, () => this._buffer.readInt32BE(this.offset) * 0x100000000 + this._buffer.readUInt32BE(this.offset + 4));
+            case 0xd4:
+                return this._readExt(1);
+            case 0xd5:
+                return this._readExt(2);
+            case 0xd6:
+                return this._readExt(4);
+            case 0xd7:
+                return this._readExt(8);
+            case 0xd8:
+                return this._readExt(16);
+            case 0xd9:
+                return this._readString(this._readUint8());
+            case 0xda:
+                return this._readString(this._readUint16());
+            case 0xdb:
+                return this._readString(this._readUint32());
+            case 0xdc:
+                return this._readArray(this._readUint16());
+            case 0xdd:
+                return this._readArray(this._readUint32());
+            case 0xde:
+                return this._readMap(this._readUint16());
+            case 0xdf:
+                return this._readMap(this._readUint32());
+        }
+
+        throw new Error(`MessagePack: invalid type 0x${type.toString(16)}`);
+    }
+
+    private _readMap(length: number): { [key: string]: any } {
+        const map: { [key: string]: any } = {};
+        for (let i = 0; i < length; i++) {
+            const key = this.read();
+            if (typeof key !== "string" && typeof key !== "number") {
+                throw new Error("MessagePack: map key must be string or number");
+            }
+            const value = this.read();
+            if (key === "__proto__") {
+                // same as `JSON.parse()`, don't change the prototype.
+                Object.defineProperty(map, key, { value, enumerable: true, configurable: true, writable: true });
+            } else {
+                map[key] = value;
+            }
+        }
+        return map;
+    }
+
+    private _readArray(length: number): any[] {
+        const array = new Array(length);
+        for (let i = 0; i < length; i++) {
+            array[i] = this.read();
+        }
+        return array;
+    }
+
+    private _readString(length: number): string {
+        this._assertAvailable(length);
+        const value = this._buffer.toString("utf8", this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+    }
+
+    private _readBinary(length: number): Uint8Array {
+        this._assertAvailable(length);
+        const value = Buffer.from(this._buffer.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+
+    private _readExt(length: number): any {
+
+        const type = this._readFixed(1, () => this._buffer.readInt8(this.offset));
+
+        if (type === TIMESTAMP_EXT_TYPE) {
+            if (length === 4) {
+                return new Date(this._readUint32() * 1000);
+            }
+            if (length === 8) {
+                const high = this._readUint32();
+                const low = this._readUint32();
+                const nsec = high >>> 2;
+                const sec = (high & 0x3) * 0x100000000 + low;
+                return new Date(sec * 1000 + nsec / 1e6);
+            }
+            if (length === 12) {
+                const nsec = this._readUint32();
+                const sec = this._readFixed(8, () => this._buffer.readInt32BE(this.offset) * 0x100000000 + this._buffer.readUInt32BE(this.offset + 4));
+                return new Date(sec * 1000 + nsec / 1e6);
+            }
+        }
+
+        throw new Error(`MessagePack: unsupported extension type ${type}`);
+    }
+
+    private _readUint8(): number {
+        return this._readFixed(1, () => this._buffer[this.offset]);
+    }
+
+    private _readUint16(): number {
+        return this._readFixed(2, () => this._buffer.readUInt16BE(this.offset));
+    }
+
+    private _readUint32(): number {
+        return this._readFixed(4, () => this._buffer.readUInt32BE(this.offset));
+    }
+
+    private _readFixed<T>(size: number, reader: () => T): T {
+        this._assertAvailable(size);
+        const value = reader();
+        this.offset += size;
+        return value;
+    }
+
+    private _assertAvailable(size: number): void {
+        if (this.offset + size > this._buffer.length) {
+            throw new Error("MessagePack: unexpected end of data");
+        }
+    }
+}
@@ -0,0 +1,147 @@
+import { MethodDescriptor } from "./MessageHandler";
+import { JSONSchema } from "./schema";
+
+/**
+ * Name of the built-in service discovery method.
+ */
+export const DISCOVER_METHOD = "rpc.discover";
+
+/**
+ * OpenRPC Info Object
+ */
+export interface OpenRPCInfo {
+    title: string;
+    version: string;
+    description?: string;
+}
+
+/**
+ * OpenRPC Content Descriptor Object
+ */
+export interface OpenRPCContentDescriptor {
+    name: string;
+    description?: string;
+    required?: boolean;
+    schema: JSONSchema;
+}
+
+/**
+ * OpenRPC Example Pairing Object
+ */
+export interface OpenRPCExample {
+    name: string;
+    description?: string;
+    params: { name: string; value: any }[];
+    result?: { name: string; value: any };
+}
+
+/**
+ * OpenRPC Method Object
+ */
+export interface OpenRPCMethod {
+    name: string;
+    summary?: string;
+    description?: string;
+    deprecated?: boolean;
+    paramStructure: "by-name" | "by-position" | "either";
+    params: OpenRPCContentDescriptor[];
+    result: OpenRPCContentDescriptor;
+    examples?: OpenRPCExample[];
+}
+
+/**
+ * OpenRPC Document
+ */
+export interface OpenRPCDocument {
+    openrpc: string;
+    info: OpenRPCInfo;
+    methods: OpenRPCMethod[];
+}
+
+const defaultInfo: OpenRPCInfo = {
+    title: "JSON-RPC 2.0 API",
+    version: "0.0.0"
+};
+
+/**
+ * Creates an OpenRPC document from the methods.
+ * `rpc.` and `$/` prefixed methods are excluded.
+ * @param methods pairs of the name and the descriptor of the methods.
+ * @param info The info object of the document.
+ */
+export function createOpenRPCDocument(methods: Iterable<[string, MethodDescriptor | undefined]>, info: OpenRPCInfo = defaultInfo): OpenRPCDocument {
+
+    const doc: OpenRPCDocument = {
+        openrpc: "1.2.6",
+        info: { ...info },
+        methods: []
+    };
+
+    for (const [name, descriptor = {}] of methods) {
+        if (name.startsWith("rpc.") || name.startsWith("$/")) {
+            continue;
+        }
+
+        const method: OpenRPCMethod = {
+            name,
+            paramStructure: "by-name",
+            params: [],
+            result: {
+                name: "result",
+                schema: descriptor.result || {}
+            }
+        };
+
+        if (descriptor.summary !== undefined) {
+            method.summary = descriptor.summary;
+        }
+        if (descriptor.description !== undefined) {
+            method.description = descriptor.description;
+        }
+        if (descriptor.deprecated !== undefined) {
+            method.deprecated = descriptor.deprecated;
+        }
+
+        const params = descriptor.params;
+        if (params && Array.isArray(params.items)) {
+            method.paramStructure = "by-position";
+            method.params = params.items.map((schema, i) => _toContentDescriptor(`param${i}`, schema, i < (params.minItems || 0)));
+        } else if (params && params.properties) {
+            const required = params.required || [];
+            method.params = Object.keys(params.properties).map(key => _toContentDescriptor(key, params.properties[key], required.indexOf(key) !== -1));
+        }
+
+        if (descriptor.examples !== undefined) {
+            method.examples = descriptor.examples;
+        }
+
+        doc.methods.push(method);
+    }
+
+    return doc;
+}
+
+/**
+ * Writes the OpenRPC document to the file. (for Node.js)
+ * @param source `Server` or `Client` which has the methods.
+ * @param path The path of the file.
+ * @param info The info object of the document.
+ */
+export async function writeOpenRPCDocument(source: { getOpenRPCDocument(info?: OpenRPCInfo): OpenRPCDocument }, path: string, info?: OpenRPCInfo): Promise<void> {
+    const fs = await import("fs");
+    await fs.promises.writeFile(path, JSON.stringify(source.getOpenRPCDocument(info), null, 2) + "\n");
+}
+
+function _toContentDescriptor(name: string, schema: JSONSchema, required: boolean): OpenRPCContentDescriptor {
+
+    const descriptor: OpenRPCContentDescriptor = { name, schema };
+
+    if (schema.description !== undefined) {
+        descriptor.description = schema.description;
+    }
+    if (required) {
+        descriptor.required = true;
+    }
+
+    return descriptor;
+}
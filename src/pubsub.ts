@@ -0,0 +1,238 @@
+import { v4 as uuidv4 } from "uuid";
+import { AdapterHost, BroadcastOptions, BroadcastPacket, InMemoryAdapter } from "./adapter";
+import { MessagePackCodec } from "./codec";
+
+/**
+ * Client of the pub/sub messaging. (e.g. Redis, NATS)
+ */
+export interface PubSubClient {
+    /**
+     * Publishes the message to the channel.
+     */
+    publish(channel: string, message: string): Promise<void> | void;
+    /**
+     * Subscribes the channel.
+     */
+    subscribe(channel: string, listener: (message: string) => void): Promise<void> | void;
+    /**
+     * Unsubscribes the channel.
+     */
+    unsubscribe(channel: string, listener: (message: string) => void): Promise<void> | void;
+    /**
+     * Gets the number of the subscribers of the channel. (optional)
+     * Membership queries wait for the responses of all nodes if this is implemented, otherwise until the timeout.
+     */
+    numSubscribers?(channel: string): Promise<number> | number;
+}
+
+/**
+ * In-process pub/sub. This is a stand-in of the network pub/sub for tests and development.
+ * Messages are delivered asynchronously like the network.
+ */
+export class LocalPubSub implements PubSubClient {
+
+    private _channels: Map<string, Set<(message: string) => void>> = new Map();
+
+    publish(channel: string, message: string): void {
+        for (const listener of Array.from(this._channels.get(channel) || [])) {
+            Promise.resolve().then(() => listener(message));
+        }
+    }
+
+    subscribe(channel: string, listener: (message: string) => void): void {
+        if (this._channels.has(channel) === false) {
+            this._channels.set(channel, new Set());
+        }
+        this._channels.get(channel).add(listener);
+    }
+
+    unsubscribe(channel: string, listener: (message: string) => void): void {
+        const listeners = this._channels.get(channel);
+        if (!listeners) {
+            return;
+        }
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            this._channels.delete(channel);
+        }
+    }
+
+    numSubscribers(channel: string): number {
+        return this._channels.has(channel) ? this._channels.get(channel).size : 0;
+    }
+}
+
+export interface PubSubAdapterOptions {
+    /**
+     * The pub/sub client which is shared by the nodes.
+     */
+    pubsub: PubSubClient;
+    /**
+     * prefix of the channels. (default: `"jsonrpc2-ws"`)
+     */
+    channel?: string;
+    /**
+     * how many ms to wait for the responses of the membership query.
+     */
+    requestTimeout?: number;
+}
+
+interface PendingRequest {
+    ids: Set<string>;
+    remaining: number;
+    timer: NodeJS.Timer;
+    resolve: (ids: string[]) => void;
+}
+
+/**
+ * Adapter which fans out the broadcasts and the membership queries through the pub/sub.
+ * Messages between the nodes are serialized as MessagePack in base64 to keep the binary data. (e.g. `Buffer` in the params)
+ */
+export class PubSubAdapter extends InMemoryAdapter {
+
+    /** id of this node */
+    readonly uid: string = uuidv4();
+
+    private _pubsub: PubSubClient;
+    private _requestTimeout: number;
+    private _prefix: string;
+    private _channels: { broadcast: string; request: string; response: string };
+    private _listeners: { [channel: string]: (message: string) => void };
+    private _requests: Map<string, PendingRequest> = new Map();
+
+    constructor(host: AdapterHost, options: PubSubAdapterOptions) {
+        super(host);
+
+        this._pubsub = options.pubsub;
+        this._requestTimeout = options.requestTimeout || 5000;
+
+        this._prefix = options.channel || "jsonrpc2-ws";
+        this._channels = {
+            broadcast: `${this._prefix}#broadcast`,
+            request: `${this._prefix}#request`,
+            response: this._responseChannel(this.uid)
+        };
+        this._listeners = {
+            [this._channels.broadcast]: message => this._receive(message, data => this._onBroadcast(data)),
+            [this._channels.request]: message => this._receive(message, data => this._onRequest(data)),
+            [this._channels.response]: message => this._receive(message, data => this._onResponse(data))
+        };
+
+        for (const channel of Object.keys(this._listeners)) {
+            this._call(() => this._pubsub.subscribe(channel, this._listeners[channel]));
+        }
+    }
+
+    broadcast(packet: BroadcastPacket, options: BroadcastOptions = {}): void {
+        this.localBroadcast(packet, options);
+        this._publish(this._channels.broadcast, { uid: this.uid, packet, options });
+    }
+
+    async fetchSocketIds(options: BroadcastOptions = {}): Promise<string[]> {
+
+        const ids = this.localSocketIds(options);
+
+        let remaining = Infinity;
+        if (this._pubsub.numSubscribers) {
+            // excludes this node.
+            remaining = await this._pubsub.numSubscribers(this._channels.request) - 1;
+        }
+        if (remaining <= 0) {
+            return Array.from(ids);
+        }
+
+        const requestId = uuidv4();
+        const promise = new Promise<string[]>(resolve => {
+            this._requests.set(requestId, {
+                ids,
+                remaining,
+                // responds the collected ids if some nodes didn't respond in time.
+                timer: setTimeout(() => this._resolveRequest(requestId), this._requestTimeout),
+                resolve
+            });
+        });
+        this._publish(this._channels.request, { uid: this.uid, requestId, options });
+
+        return promise;
+    }
+
+    close(): void {
+
+        for (const channel of Object.keys(this._listeners)) {
+            this._call(() => this._pubsub.unsubscribe(channel, this._listeners[channel]));
+        }
+        for (const requestId of Array.from(this._requests.keys())) {
+            this._resolveRequest(requestId);
+        }
+
+        super.close();
+    }
+
+    private _onBroadcast({ uid, packet, options }: any): void {
+        if (uid !== this.uid) {
+            this.localBroadcast(packet, options);
+        }
+    }
+
+    private _onRequest({ uid, requestId, options }: any): void {
+        if (uid !== this.uid) {
+            this._publish(this._responseChannel(uid), {
+                requestId,
+                ids: Array.from(this.localSocketIds(options))
+            });
+        }
+    }
+
+    private _onResponse({ requestId, ids }: any): void {
+
+        const request = this._requests.get(requestId);
+        if (!request) {
+            return;
+        }
+
+        for (const id of ids) {
+            request.ids.add(id);
+        }
+        if (--request.remaining <= 0) {
+            this._resolveRequest(requestId);
+        }
+    }
+
+    private _resolveRequest(requestId: string): void {
+
+        const request = this._requests.get(requestId);
+        if (!request) {
+            return;
+        }
+
+        this._requests.delete(requestId);
+        clearTimeout(request.timer);
+        request.resolve(Array.from(request.ids));
+    }
+
+    private _responseChannel(uid: string): string {
+        return `${this._prefix}#response#${uid}`;
+    }
+
+    private _receive(message: string, handler: (data: any) => void): void {
+        try {
+            handler(MessagePackCodec.decode(Buffer.from(message, "base64")));
+        } catch (e) {
+            this.host.error(e);
+        }
+    }
+
+    private _publish(channel: string, message: object): void {
+        const encoded = MessagePackCodec.encode(message) as Uint8Array;
+        this._call(() => this._pubsub.publish(channel, Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength).toString("base64")));
+    }
+
+    /**
+     * Calls the pub/sub client and reports the error to the host.
+     */
+    private _call(fn: () => Promise<void> | void): void {
+        Promise.resolve()
+            .then(fn)
+            .catch(e => this.host.error(e));
+    }
+}
@@ -0,0 +1,119 @@
+import * as http from "http";
+import * as net from "net";
+import { URL } from "url";
+import Server, { Options as ServerOptions, CloseOptions } from "./server";
+
+/**
+ * Condition of the upgrade requests which are handled by the namespace.
+ * Both are matched if both are set.
+ */
+export interface Route {
+    /**
+     * pathname of the request. e.g. `"/admin"`
+     */
+    path?: string;
+    /**
+     * subprotocol which is offered by the client. (`Sec-WebSocket-Protocol`)
+     */
+    protocol?: string;
+}
+
+/**
+ * Serves multiple namespaced servers on one HTTP server.
+ * Each namespace is a `Server` which has its own methods, middlewares, rooms and sockets.
+ */
+export default class Router {
+
+    private _routes: [Route, Server][] = [];
+    private _onUpgrade: (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => void;
+
+    /**
+     * Create an instance
+     * @param httpServer The HTTP server to handle the upgrade requests. Call `handleUpgrade()` if omitted.
+     */
+    constructor(readonly httpServer?: http.Server) {
+
+        if (httpServer) {
+            this._onUpgrade = (req, socket, head) => {
+                if (!this.handleUpgrade(req, socket, head)) {
+                    socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+                }
+            };
+            httpServer.on("upgrade", this._onUpgrade);
+        }
+    }
+
+    /**
+     * Creates the namespace.
+     * The routes are matched in order of `route()`.
+     * @param route The pathname or the condition of the requests.
+     * @param options Options of the server. (`wss` runs in `noServer` mode)
+     */
+    route<ServerMethods = any, ClientMethods = any, ServerEvents = any>(route: string | Route, options: ServerOptions = {}): Server<ServerMethods, ClientMethods, ServerEvents> {
+
+        const server = new Server<ServerMethods, ClientMethods, ServerEvents>({
+            ...options,
+            wss: {
+                ...options.wss,
+                noServer: true
+            },
+            open: true
+        });
+
+        this._routes.push([typeof route === "string" ? { path: route } : route, server]);
+
+        return server;
+    }
+
+    /**
+     * Hands over the upgrade request to the matched namespace.
+     * e.g. `httpServer.on("upgrade", (req, socket, head) => router.handleUpgrade(req, socket, head) || socket.destroy())`
+     * @returns `false` if no namespace matches the request.
+     */
+    handleUpgrade(req: http.IncomingMessage, socket: net.Socket, head: Buffer): boolean {
+
+        const server = this.match(req);
+        if (!server) {
+            return false;
+        }
+
+        server.wss.handleUpgrade(req, socket, head, ws => server.wss.emit("connection", ws, req));
+        return true;
+    }
+
+    /**
+     * Finds the namespace of the request.
+     * @param req The upgrade request.
+     */
+    match(req: http.IncomingMessage): Server | undefined {
+
+        const pathname = new URL(req.url, "ws://localhost").pathname;
+        const protocols = (req.headers["sec-websocket-protocol"] || "").split(",").map(protocol => protocol.trim());
+
+        for (const [route, server] of this._routes) {
+            if (route.path !== undefined && route.path !== pathname) {
+                continue;
+            }
+            if (route.protocol !== undefined && protocols.indexOf(route.protocol) === -1) {
+                continue;
+            }
+            if (server.isOpen()) {
+                return server;
+            }
+        }
+    }
+
+    /**
+     * Closes all the namespaces. (the HTTP server is not closed)
+     * @param options Options of `Server#close()`.
+     */
+    async close(options?: CloseOptions): Promise<void> {
+
+        if (this.httpServer) {
+            this.httpServer.removeListener("upgrade", this._onUpgrade);
+        }
+
+        await Promise.all(this._routes.map(([, server]) => server.close(options)));
+        this._routes = [];
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * JSON Schema (subset of draft-07)
+ */
+export interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    enum?: any[];
+    const?: any;
+    properties?: { [name: string]: JSONSchema };
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    items?: JSONSchema | JSONSchema[];
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    allOf?: JSONSchema[];
+    not?: JSONSchema;
+    title?: string;
+    description?: string;
+    default?: any;
+    examples?: any[];
+    [keyword: string]: any;
+}
+
+export type JSONSchemaType = "null" | "boolean" | "object" | "array" | "number" | "integer" | "string";
+
+/**
+ * Error of the validation
+ */
+export interface ValidationError {
+    /**
+     * JSON Pointer to the invalid value. (empty string is the root)
+     */
+    path: string;
+    /**
+     * A String providing a short description of the error.
+     */
+    message: string;
+}
+
+/**
+ * Validates the value by the JSON Schema.
+ * Supports the keywords declared in `JSONSchema`, unknown keywords are ignored.
+ * @param schema The JSON Schema.
+ * @param value The value to be validated.
+ * @returns list of the errors. (empty if the value is valid)
+ */
+export function validate(schema: JSONSchema | boolean, value: any): ValidationError[] {
+    const errors: ValidationError[] = [];
+    _validate(schema, value, "", errors);
+    return errors;
+}
+
+function _validate(schema: JSONSchema | boolean, value: any, path: string, errors: ValidationError[]): void {
+
+    if (schema === true) {
+        return;
+    }
+    if (schema === false) {
+        errors.push({ path, message: "must not be present" });
+        return;
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (types.some(type => _isType(value, type)) === false) {
+            errors.push({ path, message: `must be ${types.join(" or ")}` });
+            return;
+        }
+    }
+
+    if (schema.enum !== undefined && schema.enum.some(item => _isEqual(item, value)) === false) {
+        errors.push({ path, message: "must be equal to one of the allowed values" });
+    }
+
+    if ("const" in schema && _isEqual(schema.const, value) === false) {
+        errors.push({ path, message: "must be equal to constant" });
+    }
+
+    if (typeof value === "number") {
+        _validateNumber(schema, value, path, errors);
+    } else if (typeof value === "string") {
+        _validateString(schema, value, path, errors);
+    } else if (Array.isArray(value)) {
+        _validateArray(schema, value, path, errors);
+    } else if (typeof value === "object" && value !== null) {
+        _validateObject(schema, value, path, errors);
+    }
+
+    if (schema.allOf !== undefined) {
+        for (const sub of schema.allOf) {
+            _validate(sub, value, path, errors);
+        }
+    }
+
+    if (schema.anyOf !== undefined && schema.anyOf.some(sub => validate(sub, value).length === 0) === false) {
+        errors.push({ path, message: "must match a schema in anyOf" });
+    }
+
+    if (schema.oneOf !== undefined && schema.oneOf.filter(sub => validate(sub, value).length === 0).length !== 1) {
+        errors.push({ path, message: "must match exactly one schema in oneOf" });
+    }
+
+    if (schema.not !== undefined && validate(schema.not, value).length === 0) {
+        errors.push({ path, message: "must not be valid" });
+    }
+}
+
+function _validateNumber(schema: JSONSchema, value: number, path: string, errors: ValidationError[]): void {
+
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined && Number.isInteger(value / schema.multipleOf) === false) {
+        errors.push({ path, message: `must be multiple of ${schema.multipleOf}` });
+    }
+}
+
+function _validateString(schema: JSONSchema, value: string, path: string, errors: ValidationError[]): void {
+
+    // count by code points.
+    const length = Array.from(value).length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+        errors.push({ path, message: `must not have fewer than ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+        errors.push({ path, message: `must not have more than ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && new RegExp(schema.pattern, "u").test(value) === false) {
+        errors.push({ path, message: `must match pattern "${schema.pattern}"` });
+    }
+}
+
+function _validateArray(schema: JSONSchema, value: any[], path: string, errors: ValidationError[]): void {
+
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path, message: `must not have fewer than ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ path, message: `must not have more than ${schema.maxItems} items` });
+    }
+    if (schema.uniqueItems === true) {
+        for (let i = 1; i < value.length; i++) {
+            if (value.slice(0, i).some(item => _isEqual(item, value[i]))) {
+                errors.push({ path, message: "must not have duplicate items" });
+                break;
+            }
+        }
+    }
+
+    if (Array.isArray(schema.items)) {
+        const items = schema.items;
+        value.forEach((item, i) => {
+            if (i < items.length) {
+                _validate(items[i], item, `${path}/${i}`, errors);
+            }
+        });
+    } else if (schema.items !== undefined) {
+        const items = schema.items;
+        value.forEach((item, i) => _validate(items, item, `${path}/${i}`, errors));
+    }
+}
+
+function _validateObject(schema: JSONSchema, value: { [key: string]: any }, path: string, errors: ValidationError[]): void {
+
+    if (schema.required !== undefined) {
+        for (const name of schema.required) {
+            if (value[name] === undefined) {
+                errors.push({ path, message: `must have required property '${name}'` });
+            }
+        }
+    }
+
+    const properties = schema.properties || {};
+    for (const name of Object.keys(value)) {
+        const propertyPath = `${path}/${_escapePointer(name)}`;
+        if (Object.prototype.hasOwnProperty.call(properties, name)) {
+            _validate(properties[name], value[name], propertyPath, errors);
+        } else if (schema.additionalProperties === false) {
+            errors.push({ path: propertyPath, message: "must not be additional property" });
+        } else if (typeof schema.additionalProperties === "object") {
+            _validate(schema.additionalProperties, value[name], propertyPath, errors);
+        }
+    }
+}
+
+function _isType(value: any, type: JSONSchemaType): boolean {
+    switch (type) {
+        case "null":
+            return value === null;
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return typeof value === "object" && value !== null && !Array.isArray(value);
+        case "integer":
+            return Number.isInteger(value);
+        case "number":
+            return typeof value === "number" && isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function _isEqual(a: any, b: any): boolean {
+
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) {
+        return false;
+    }
+    return keys.every(key => _isEqual(a[key], b[key]));
+}
+
+function _escapePointer(name: string): string {
+    return name.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -1,22 +1,139 @@
 import * as http from "http";
+import { URL } from "url";
 import EventEmitter = require("eventemitter3");
-import WebSocket = require("ws");
 import { Server as WebSocketServer, ServerOptions as WSServerOptions, OPEN as WS_OPEN } from "ws";
 import { v4 as uuidv4 } from "uuid";
-import { Notification, Error as RPCError, Response, ErrorResponse } from "./common";
+import { Notification, Request, Error as ErrorObject, Response, ErrorResponse, isSuccessResponse, createError, ErrorCode } from "./common";
 import { Socket as ISocket } from "./Socket";
-import MessageHandler, { VERSION_CHECK_MODE, Options as MessageHandlerOptions } from "./MessageHandler";
+import MessageHandler, { VERSION_CHECK_MODE, SHUTDOWN_METHOD, Options as MessageHandlerOptions, Middleware, CallContext, TypedMethodMap, TypedMethodFunction, MethodDescriptor, MethodName, MethodParams, MethodResult } from "./MessageHandler";
+import { OpenRPCDocument, OpenRPCInfo } from "./openrpc";
 import MapLike from "./MapLike";
+import { AuthenticationError, ConnectionClosedError, RPCError } from "./errors";
+import { Codec, JSONCodec, negotiateCodec, isCodecName } from "./codec";
+import { Adapter, AdapterFactory, BroadcastPacket, InMemoryAdapter } from "./adapter";
+import { SUBSCRIBE_METHOD, UNSUBSCRIBE_METHOD, EventName, EventOptions, SubscriptionResult, eventRoom, isEventNames } from "./subscription";
+import { LimitViolation } from "./limits";
+import { Transport, CollectingTransport } from "./transport";
+import { SESSION_METHOD, RESUME_TOKEN_PARAMETER, SessionOptions, SessionParams } from "./session";
+
+/**
+ * Result of the `authenticate` hook.
+ * `false` rejects the connection, an object is an identity which will be merged into `socket#data`.
+ */
+export type AuthenticateResult = boolean | { [key: string]: any };
+
+export interface HandshakeOptions {
+    /**
+     * method names which can be called by unauthenticated sockets. (e.g. `["login"]`)
+     */
+    methods: string[];
+    /**
+     * how many ms to wait for the socket to be promoted before closing it.
+     */
+    timeout?: number;
+}
+
+/**
+ * What to do with the notifications while the socket is slow.
+ * `"drop-newest"`: discards the new notifications.
+ * `"drop-oldest"`: queues only the latest notification of each method and sends them after drained.
+ * `"disconnect"`: closes the connection with `closeCode`.
+ */
+export type BackpressurePolicy = "drop-newest" | "drop-oldest" | "disconnect";
+
+export interface BackpressureOptions {
+    /**
+     * how many bytes of the send buffer to consider the socket slow
+     */
+    highWaterMark: number;
+    /**
+     * (default: `"drop-newest"`)
+     */
+    policy?: BackpressurePolicy;
+    /**
+     * close code of the `"disconnect"` policy (default: 1013 Try Again Later)
+     */
+    closeCode?: number;
+    /**
+     * how many ms to check the send buffer while the socket is slow (default: 50)
+     */
+    drainInterval?: number;
+}
+
+/**
+ * Result of `Server#stats()`
+ */
+export interface ServerStats {
+    /**
+     * number of the connected sockets
+     */
+    sockets: number;
+    /**
+     * the sockets which exceed the high water mark
+     */
+    throttled: {
+        id: string;
+        bufferedAmount: number;
+        queuedMessages: number;
+        droppedMessages: number;
+    }[];
+}
+
+/**
+ * Options of `Server#close()`
+ */
+export interface CloseOptions {
+    /**
+     * (ms) shuts down gracefully within this period. (default: 0)
+     * The new connections and calls are rejected, the sockets are closed with 1001 (Going Away) after the calls in process are settled.
+     * The remaining sockets are terminated after the period.
+     */
+    gracePeriod?: number;
+}
 
 export interface Options extends MessageHandlerOptions {
     /**
-     * how many ms without a pong packet to consider the connection closed
+     * how many ms to wait for the pong packet after each ping to consider the connection closed
      */
     pingTimeout?: number;
     /**
-     * how many ms before sending a new ping packet
+     * how many ms after the last pong before sending a new ping packet (scheduled for each socket)
      */
     pingInterval?: number;
+    /**
+     * how many ms to wait for a response of the method call to the client
+     */
+    methodCallTimeout?: number;
+    /**
+     * codec(s) of the messages. (default: JSON)
+     * multiple codecs are negotiated through the WebSocket subprotocol, the first one is used if not negotiated.
+     */
+    codec?: Codec | Codec[];
+    /**
+     * verifies the handshake request before the socket is created.
+     * throw `AuthenticationError` to reject with a HTTP status.
+     */
+    authenticate?: (req: http.IncomingMessage) => Promise<AuthenticateResult> | AuthenticateResult;
+    /**
+     * enables JSON-RPC-level login handshake.
+     * unauthenticated sockets can only call allowed methods until `socket#promote()` is called.
+     */
+    handshake?: HandshakeOptions;
+    /**
+     * limits the send buffer of each socket for the notifications. (unlimited if not set)
+     * responses and method calls are not dropped.
+     */
+    backpressure?: BackpressureOptions;
+    /**
+     * enables the session resumption.
+     * the socket which lost the connection abnormally is kept for the grace period, and resumed by the client with the token.
+     */
+    session?: SessionOptions;
+    /**
+     * creates the adapter which shares the rooms and the broadcasts across the server processes.
+     * (default: `InMemoryAdapter` for a single process)
+     */
+    adapter?: AdapterFactory;
     /**
      * call `#open()`
      */
@@ -24,35 +141,53 @@ export interface Options extends MessageHandlerOptions {
     /**
      * `ws` constructor's options.
      *  details: https://github.com/websockets/ws/blob/master/doc/ws.md
+     * omit to use the other transports only. (`#accept()`, `#handleHTTP()`)
      */
-    wss: WSServerOptions;
+    wss?: WSServerOptions;
     /**
      * The WebSocket server implementation to use.
      */
     wsEngine?: typeof WebSocketServer;
 }
 
-export default interface Server {
+export default interface Server<ServerMethods = any, ClientMethods = any, ServerEvents = any> {
     on(event: "listening", cb: (this: Server) => void): this;
-    on(event: "connection", cb: (this: Server, socket: Socket, req?: http.IncomingMessage) => void): this;
+    on(event: "connection", cb: (this: Server, socket: Socket<ClientMethods>, req?: http.IncomingMessage) => void): this;
+    on(event: "resume", cb: (this: Server, socket: Socket<ClientMethods>, req?: http.IncomingMessage) => void): this;
     on(event: "error", cb: (this: Server, error: Error) => void): this;
     on(event: "error_response", cb: (this: Server, response: ErrorResponse) => void): this;
-    on(event: "notification_error", cb: (this: Server, error: RPCError) => void): this;
+    on(event: "notification_error", cb: (this: Server, error: ErrorObject) => void): this;
+    on(event: "join_room", cb: (this: Server, room: string, socket: Socket<ClientMethods>) => void): this;
+    on(event: "leave_room", cb: (this: Server, room: string, socket: Socket<ClientMethods>) => void): this;
+    on(event: "room_empty", cb: (this: Server, room: string) => void): this;
+    on(event: "heartbeat_timeout", cb: (this: Server, socket: Socket<ClientMethods>) => void): this;
+    on(event: "limit_exceeded", cb: (this: Server, socket: Socket<ClientMethods>, violation: LimitViolation) => void): this;
 }
 
 /**
  * JSON-RPC 2.0 WebSocket Server
+ * @typeParam ServerMethods contract of the methods which the server provides.
+ * @typeParam ClientMethods contract of the methods which the clients provide.
+ * @typeParam ServerEvents contract of the events which the server publishes.
  */
-export default class Server extends EventEmitter {
+export default class Server<ServerMethods = any, ClientMethods = any, ServerEvents = any> extends EventEmitter {
 
     options: Options;
     wss: WebSocketServer;
-    sockets: Map<string, Socket> = new Map();
-    get methods() { return this._messageHandler.methods; }
+    /** sockets by the id. (including the suspended sockets, see `Socket#suspended`) */
+    sockets: Map<string, Socket<ClientMethods>> = new Map();
+    readonly adapter: Adapter;
+    get methods() { return this._messageHandler.methods as TypedMethodMap<ServerMethods, Socket<ClientMethods>>; }
 
-    private _messageHandler: MessageHandler<Socket>;
-    private _pingTimer: NodeJS.Timer;
-    private _lastPingAt: number = 0;
+    private _messageHandler: MessageHandler<Socket<ClientMethods>>;
+    private _identities: WeakMap<http.IncomingMessage, { [key: string]: any }> = new WeakMap();
+    private _codecs: Codec[];
+    private _declaredEvents: Map<string, EventOptions<Socket<ClientMethods>>> = new Map();
+    /** suspended or connected sockets by the resume token */
+    private _sessions: Map<string, Socket<ClientMethods>> = new Map();
+    private _expiryTimers: Map<string, NodeJS.Timer> = new Map();
+    /** `close()` is in progress (the sessions are not suspended, the new calls are rejected) */
+    private _closing: boolean = false;
 
     /**
      * Create a instance.
@@ -65,12 +200,27 @@ export default class Server extends EventEmitter {
         this.options = Object.assign({
             pingTimeout: 5000,
             pingInterval: 25000,
+            methodCallTimeout: 20000,
             open: true,
             jsonrpcVersionCheck: VERSION_CHECK_MODE.STRICT,
             uws: false
         }, options);
 
+        this._codecs = [].concat(this.options.codec || JSONCodec);
+
+        const host = {
+            deliver: (packet: BroadcastPacket, socketIds: Iterable<string>) => this._deliver(packet, socketIds),
+            error: (e: any) => this.emit("error", e)
+        };
+        this.adapter = this.options.adapter ? this.options.adapter(host) : new InMemoryAdapter(host);
+        this.adapter.on("join_room", (room, id) => this.emit("join_room", room, this.sockets.get(id)));
+        this.adapter.on("leave_room", (room, id) => this.emit("leave_room", room, this.sockets.get(id)));
+        this.adapter.on("room_empty", room => this.emit("room_empty", room));
+
         this._messageHandler = new MessageHandler(this.options);
+        this._messageHandler.on("method_response", (socket, response) => {
+            socket._handleMethodResponse(response);
+        });
         this._messageHandler.on("error_response", (socket, response) => {
             this.emit("error_response", socket, response);
             socket.emit("error_response", response);
@@ -79,8 +229,34 @@ export default class Server extends EventEmitter {
             this.emit("notification_error", socket, error);
             socket.emit("notification_error", error);
         });
+        this._messageHandler.on("limit_exceeded", (socket, violation) => {
+            this.emit("limit_exceeded", socket, violation);
+            socket.emit("limit_exceeded", violation);
+        });
+
+        this._messageHandler.builtins.set(SUBSCRIBE_METHOD, (socket, params, ctx) => this._subscribe(socket, params, ctx));
+        this._messageHandler.builtins.set(UNSUBSCRIBE_METHOD, (socket, params, ctx) => this._unsubscribe(socket, params, ctx));
+
+        this.use((ctx, next) => {
+            if (this._closing) {
+                ctx.error = createError(ErrorCode.ShuttingDown);
+                return;
+            }
+            return next();
+        });
 
-        if (this.options.open) {
+        if (this.options.handshake) {
+            const allowed = new Set(this.options.handshake.methods);
+            this.use((ctx, next) => {
+                if (ctx.socket.authenticated === false && allowed.has(ctx.method) === false) {
+                    ctx.error = createError(ErrorCode.Unauthorized);
+                    return;
+                }
+                return next();
+            });
+        }
+
+        if (this.options.open && this.options.wss) {
             this.open(callback);
         }
     }
@@ -97,10 +273,39 @@ export default class Server extends EventEmitter {
             throw new Error("`ws` has already been created");
         }
 
+        let wssOptions = this.options.wss;
+        if (!wssOptions) {
+            throw new Error("`wss` option is required to open the WebSocket server");
+        }
+        if (this.options.authenticate) {
+            if (wssOptions.verifyClient) {
+                throw new Error("`authenticate` and `wss.verifyClient` can't be used together");
+            }
+            wssOptions = {
+                ...wssOptions,
+                verifyClient: (info, cb) => this._authenticate(info.req, cb)
+            };
+        }
+
+        const handleProtocols = wssOptions.handleProtocols;
+        wssOptions = {
+            ...wssOptions,
+            handleProtocols: (protocols, req) => {
+                const codec = negotiateCodec(this._codecs, protocols);
+                if (codec) {
+                    return codec.name;
+                }
+                // same as the default behavior of `ws` except the unsupported codecs. (the handshake fails if nothing remains)
+                const others = Array.from(protocols).filter(protocol => !isCodecName(protocol));
+                const protocol = handleProtocols ? handleProtocols(new Set(others), req) : others[0];
+                return typeof protocol === "string" && !isCodecName(protocol) ? protocol : false;
+            }
+        };
+
         if (this.options.wsEngine) {
-            this.wss = new this.options.wsEngine(this.options.wss, callback);
+            this.wss = new this.options.wsEngine(wssOptions, callback);
         } else {
-            this.wss = new WebSocketServer(this.options.wss, callback);
+            this.wss = new WebSocketServer(wssOptions, callback);
         }
 
         this.wss.once("listening", function _onListeningWSS() {
@@ -108,141 +313,400 @@ export default class Server extends EventEmitter {
         });
 
         this.wss.on("connection", function _onConnectionWSS(ws, req) {
+            self.accept(ws, req);
+        });
 
-            let socket = new Socket(ws);
+        this.wss.on("error", function _onErrorWSS(e) {
+            self.emit("error", e);
+        });
 
-            self.sockets.set(socket.id, socket);
+        return this;
+    }
 
-            ws.once("close", function _onCloseWS() {
-                self.sockets.delete(socket.id);
-                socket.emit("close");
-                socket.removeAllListeners();
-                socket.ws = null;
-                socket.rooms.clear();
-                socket.data.clear();
-                socket = null;
-                ws.removeAllListeners();
-                ws = null;
-            });
+    /**
+     * Accepts the connection of the transport. (e.g. `StreamTransport` for stdio, `MessagePortTransport` for `worker_threads`)
+     * The WebSocket connections of `wss` are accepted by this too.
+     * @param transport The transport of the connection.
+     * @param req The request of the connection if exists.
+     * @returns The socket, or `null` if the server is closing. (the transport is closed)
+     */
+    accept(transport: Transport, req?: http.IncomingMessage): Socket<ClientMethods> {
+
+        const self = this;
+
+        if (self._closing) {
+            transport.close(1001, "Server shutting down");
+            return null;
+        }
+
+        const codec = self._codecs.find(c => c.name === transport.protocol) || self._codecs[0];
+        let socket = self._resumeSession(transport, req, codec);
+        const resumed = !!socket;
 
-            ws.on("message", function _onMessageWS(data) {
-                self._messageHandler.handleMessage(socket, data)
-                    .catch(function _onErrorHandleMessage(e) {
-                        self.emit("error", e);
-                    });
+        if (!resumed) {
+            socket = new Socket<ClientMethods>(transport, {
+                methodCallTimeout: self.options.methodCallTimeout,
+                codec,
+                adapter: self.adapter,
+                backpressure: self.options.backpressure,
+                session: self.options.session
             });
 
-            ws.on("pong", function _onPongWS() {
-                socket._pongAt = Date.now();
+            if (self.options.handshake) {
+                socket.authenticated = false;
+            }
+
+            self.sockets.set(socket.id, socket);
+            self.adapter.addSocket(socket.id);
+
+            socket.on("heartbeat_timeout", function _onHeartbeatTimeout() {
+                self.emit("heartbeat_timeout", this);
             });
+        }
 
-            self.emit("connection", socket, req);
+        const identity = self._identities.get(req);
+        if (identity) {
+            self._identities.delete(req);
+            socket.promote(identity);
+        }
+
+        transport.once("close", function _onCloseTransport(code, reason) {
+            // the socket may be taken over by the resumed connection.
+            if (socket.ws === transport) {
+                if (self.options.session && code === 1006 && !self._closing) {
+                    self._suspendSession(socket, code, reason && reason.toString());
+                } else {
+                    self._removeSocket(socket, code, reason && reason.toString());
+                }
+            }
+            socket = null;
+            transport.removeAllListeners();
+            transport = null;
         });
 
-        this.wss.on("error", function _onErrorWSS(e) {
-            self.emit("error", e);
+        transport.on("message", function _onMessageTransport(data) {
+            self._messageHandler.handleMessage(socket, data)
+                .catch(function _onErrorHandleMessage(e) {
+                    self.emit("error", e);
+                });
         });
 
-        this._pingTimer = setInterval(this._ping.bind(this), this.options.pingInterval);
+        transport.on("pong", function _onPongTransport() {
+            socket._handlePong();
+        });
+
+        socket._startHeartbeat(self.options.pingInterval, self.options.pingTimeout);
+
+        if (self.options.session) {
+            self._startSession(socket, resumed);
+        }
 
+        if (socket.authenticated === false && self.options.handshake.timeout) {
+            const handshakeTimer = setTimeout(function _onHandshakeTimeout() {
+                if (socket && socket.authenticated === false) {
+                    socket.close(1008, "Authentication timeout");
+                }
+            }, self.options.handshake.timeout);
+            transport.once("close", () => clearTimeout(handshakeTimer));
+        }
+
+        if (resumed) {
+            self.emit("resume", socket, req);
+        } else {
+            self.emit("connection", socket, req);
+        }
+
+        return socket;
+    }
+
+    /**
+     * Handles a request (or a batch) of JSON over HTTP POST. e.g. `http.createServer((req, res) => rpc.handleHTTP(req, res))`
+     * The method receives the transient socket for the request. (not in the rooms, the notifications to it are discarded)
+     * Responds `204 No Content` if the request has only the notifications.
+     * Responds `500` and emits `error` if the dispatch fails unexpectedly.
+     * @param req The request.
+     * @param res The response.
+     */
+    async handleHTTP(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+
+        if (req.method !== "POST") {
+            res.writeHead(405, { allow: "POST" });
+            res.end();
+            return;
+        }
+
+        if (this._closing) {
+            res.writeHead(503);
+            res.end();
+            return;
+        }
+
+        if (this.options.authenticate) {
+            const [verified, code, message] = await new Promise<[boolean, number?, string?]>(resolve => {
+                this._authenticate(req, (result, status, reason) => resolve([result, status, reason]));
+            });
+            if (!verified) {
+                res.writeHead(code, message);
+                res.end();
+                return;
+            }
+        }
+
+        let body: string;
+        try {
+            body = await readBody(req, this.options.limits && this.options.limits.maxPayload);
+        } catch (e) {
+            res.writeHead(413);
+            res.end();
+            return;
+        }
+
+        const transport = new CollectingTransport();
+        const socket = new Socket<ClientMethods>(transport, {
+            methodCallTimeout: this.options.methodCallTimeout,
+            codec: JSONCodec
+        });
+        if (this.options.handshake) {
+            socket.authenticated = false;
+        }
+        const identity = this._identities.get(req);
+        if (identity) {
+            this._identities.delete(req);
+            socket.promote(identity);
+        }
+
+        try {
+            await this._messageHandler.handleMessage(socket, body);
+        } catch (e) {
+            this.emit("error", e);
+            res.writeHead(500);
+            res.end();
+            return;
+        } finally {
+            this._messageHandler.cancelPendingRequests(socket);
+            socket._rejectResponseHandlers(new ConnectionClosedError());
+        }
+
+        if (transport.readyState !== WS_OPEN) {
+            // closed by the limits.
+            res.writeHead(400, transport.closeReason);
+            res.end();
+            return;
+        }
+
+        // the response is the last message. (after the notifications such as `$/progress`)
+        const response = transport.messages.length === 0 ? undefined : transport.messages[transport.messages.length - 1];
+        if (response === undefined || !isResponseMessage(response)) {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(response);
+    }
+
+    /**
+     * Sets the method with the descriptor. (e.g. JSON Schema of the params)
+     * @param method The name of the method.
+     * @param fn The method function.
+     * @param descriptor The descriptor of the method.
+     */
+    register<K extends MethodName<ServerMethods>>(method: K, fn: TypedMethodFunction<ServerMethods, K, Socket<ClientMethods>>, descriptor?: MethodDescriptor): this {
+        this._messageHandler.register(method, fn, descriptor);
+        return this;
+    }
+
+    /**
+     * Creates the OpenRPC document of the methods.
+     * @param info The info object of the document. (default: `discover` option)
+     */
+    getOpenRPCDocument(info?: OpenRPCInfo): OpenRPCDocument {
+        return this._messageHandler.getOpenRPCDocument(info);
+    }
+
+    /**
+     * Adds a middleware around the method dispatch.
+     * @param middleware `(ctx, next) => Promise<void> | void`
+     */
+    use(middleware: Middleware<Socket<ClientMethods>>): this {
+        this._messageHandler.use(middleware);
         return this;
     }
 
+    /**
+     * Declares the event which can be subscribed by the clients with `rpc.on`.
+     * @param event The name of the event.
+     * @param options `authorize` hook of the subscription.
+     */
+    event<E extends EventName<ServerEvents>>(event: E, options: EventOptions<Socket<ClientMethods>> = {}): this {
+        this._declaredEvents.set(event, options);
+        return this;
+    }
+
+    /**
+     * Publishes the event to the subscribers as a notification.
+     * @param event The name of the event.
+     * @param payload The payload of the event. (the params of the notification, an object or an array)
+     */
+    publish<E extends EventName<ServerEvents>>(event: E, payload?: ServerEvents[E] & object): void {
+        if (this._declaredEvents.has(event) === false) {
+            throw new Error(`JSON-RPC: event "${event}" is not declared`);
+        }
+        if (payload !== undefined && (typeof payload !== "object" || payload === null)) {
+            throw new TypeError(`JSON-RPC: payload of event "${event}" must be an object or an array`);
+        }
+        this.notifyTo(eventRoom(event), event as any, payload as any);
+    }
+
     /**
      * Closes the server and terminates all sockets.
+     * @param options Pass `gracePeriod` to shut down gracefully. (e.g. rolling deploys)
      */
-    async close(): Promise<void> {
+    async close(options: CloseOptions = {}): Promise<void> {
 
-        clearInterval(this._pingTimer);
+        this._closing = true;
+        if (options.gracePeriod > 0) {
+            await this._shutdown(options.gracePeriod);
+        }
 
         for (const socket of this.sockets.values()) {
-            socket.terminate();
+            if (socket.isOpen()) {
+                socket.terminate();
+            }
         }
 
-        await new Promise<void>((resolve, reject) => {
-            this.wss.close(err => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve();
-                }
+        if (this.wss) {
+            await new Promise<void>((resolve, reject) => {
+                this.wss.close(err => {
+                    if (err) {
+                        reject(err);
+                    } else {
+                        resolve();
+                    }
+                });
             });
-        });
+        }
+
+        // the sessions are not resumed anymore.
+        for (const socket of Array.from(this.sockets.values())) {
+            if (socket.suspended) {
+                this._removeSocket(socket, 1001, "Server closed");
+            }
+        }
 
-        this.wss.removeAllListeners();
-        delete this.wss;
+        if (this.wss) {
+            this.wss.removeAllListeners();
+            delete this.wss;
+        }
         this.sockets.clear();
+        this._closing = false;
+        await this.adapter.close();
     }
 
     /**
      * Broadcasts a notification.
      * @param method The name of the method to be invoked.
      * @param params The parameters of the method.
+     * @param except ids of the sockets to be excluded.
      */
-    broadcast(method: string, params?: object): void {
+    broadcast<K extends MethodName<ClientMethods>>(method: K, params?: MethodParams<ClientMethods, K>, except?: string[]): void {
 
         const data: Notification = {
             jsonrpc: "2.0",
             method: method,
-            params: params
+            params: params as object
         };
-        const json = JSON.stringify(data);
-
-        for (const socket of this.sockets.values()) {
-            socket.send(json);
-        }
+        this.adapter.broadcast({ message: data }, { except });
     }
 
     /**
-     * Broadcasts a notification to the room.
-     * @param room The name of the room.
+     * Broadcasts a notification to the room(s).
+     * @param room The name of the room, or the names of the rooms. (a socket in multiple rooms receives once)
      * @param method The name of the method to be invoked.
      * @param params The parameters of the method.
+     * @param except ids of the sockets to be excluded.
      */
-    notifyTo(room: string, method: string, params?: object): void {
+    notifyTo<K extends MethodName<ClientMethods>>(room: string | string[], method: K, params?: MethodParams<ClientMethods, K>, except?: string[]): void {
 
         const data: Notification = {
             jsonrpc: "2.0",
             method: method,
-            params: params
+            params: params as object
         };
-        const json = JSON.stringify(data);
+        this.adapter.broadcast({ message: data }, { rooms: [].concat(room), except });
+    }
 
-        for (const socket of this.sockets.values()) {
-            if (socket.rooms.has(room) === true) {
-                socket.send(json);
-            }
-        }
+    /**
+     * Broadcasts a (raw) message to the room(s).
+     * @param room The name of the room, or the names of the rooms.
+     * @param data (raw) message.
+     * @param except ids of the sockets to be excluded.
+     */
+    sendTo(room: string | string[], data: any, except?: string[]): void {
+        this.adapter.broadcast({ data }, { rooms: [].concat(room), except });
     }
 
     /**
-     * Broadcasts a (raw) message to the room.
+     * Get all sockets in the room. (of this process)
      * @param room The name of the room.
-     * @param data (raw) message.
      */
-    sendTo(room: string, data: any): void {
-        for (const socket of this.sockets.values()) {
-            if (socket.rooms.has(room) === true) {
-                socket.send(data);
-            }
+    in(room: string): Map<string, Socket<ClientMethods>> {
+
+        const sockets: Map<string, Socket<ClientMethods>> = new Map();
+
+        for (const id of this.adapter.localSocketIds({ rooms: [room] })) {
+            sockets.set(id, this.sockets.get(id));
         }
+
+        return sockets;
     }
 
     /**
-     * Get all sockets in the room.
+     * Get the names of the rooms which have the sockets. (of this process)
+     */
+    rooms(): string[] {
+        return this.adapter.localRooms();
+    }
+
+    /**
+     * Get the number of the sockets in the room. (of this process)
      * @param room The name of the room.
      */
-    in(room: string): Map<string, Socket> {
+    roomSize(room: string): number {
+        return this.adapter.localSocketIds({ rooms: [room] }).size;
+    }
+
+    /**
+     * Get the ids of the sockets in the room across all the server processes through the adapter.
+     * @param room The name of the room. all sockets if omitted.
+     */
+    fetchSocketIds(room?: string): Promise<string[]> {
+        return this.adapter.fetchSocketIds(room === undefined ? {} : { rooms: [room] });
+    }
 
-        const sockets: Map<string, Socket> = new Map();
+    /**
+     * Get the statistics of the sockets. (of this process)
+     */
+    stats(): ServerStats {
+
+        const throttled: ServerStats["throttled"] = [];
 
         for (const socket of this.sockets.values()) {
-            if (socket.rooms.has(room) === true) {
-                sockets.set(socket.id, socket);
+            if (socket.throttled) {
+                throttled.push({
+                    id: socket.id,
+                    bufferedAmount: socket.bufferedAmount,
+                    queuedMessages: socket.queuedMessages,
+                    droppedMessages: socket.droppedMessages
+                });
             }
         }
 
-        return sockets;
+        return {
+            sockets: this.sockets.size,
+            throttled
+        };
     }
 
     /**
@@ -253,38 +717,312 @@ export default class Server extends EventEmitter {
     }
 
     /**
-     * Ping to all sockets.
+     * Runs the `authenticate` hook. (`verifyClient` of `ws`)
      */
-    private _ping(): void {
+    private _authenticate(req: http.IncomingMessage, callback: (res: boolean, code?: number, message?: string) => void): void {
+        Promise.resolve()
+            .then(() => this.options.authenticate(req))
+            .then(result => {
+                if (result === false) {
+                    callback(false, 401);
+                    return;
+                }
+                if (typeof result === "object" && result !== null) {
+                    this._identities.set(req, result);
+                }
+                callback(true);
+            })
+            .catch(e => {
+                if (e instanceof AuthenticationError) {
+                    callback(false, e.status, e.message);
+                    return;
+                }
+                this.emit("error", e);
+                callback(false, 500);
+            });
+    }
 
-        const deadline = this._lastPingAt + this.options.pingTimeout;
+    /**
+     * Sends the packet of the adapter to the sockets of this process.
+     */
+    private _deliver(packet: BroadcastPacket, socketIds: Iterable<string>): void {
 
-        for (const socket of this.sockets.values()) {
-            if (socket._pongAt === -1 || socket._pongAt > deadline) {
-                socket.terminate();
+        const encode = packet.message ? createEncoder(packet.message) : null;
+
+        for (const id of socketIds) {
+            const socket = this.sockets.get(id);
+            if (!socket) {
                 continue;
             }
+            if (encode) {
+                socket._sendNotification(encode(socket.codec), socket.codec.binary, (packet.message as Notification).method);
+            } else {
+                socket._sendNotification(packet.data, false);
+            }
+        }
+    }
+
+    /**
+     * Waits for the calls in process, then closes the open sockets with `rpc.shutdown` notification within the grace period.
+     */
+    private async _shutdown(gracePeriod: number): Promise<void> {
 
-            socket._pongAt = -1;
+        let timer: NodeJS.Timer;
+        const expired = new Promise<void>(resolve => timer = setTimeout(resolve, gracePeriod));
+
+        await Promise.race([this._messageHandler.drain(), expired]);
+
+        const closed: Promise<void>[] = [];
+        for (const socket of this.sockets.values()) {
             if (socket.isOpen()) {
-                socket.ws.ping();
+                closed.push(new Promise(resolve => socket.once("close", resolve)));
+                socket.send(socket.codec.encode({ jsonrpc: "2.0", method: SHUTDOWN_METHOD }), socket.codec.binary);
+                socket.close(1001, "Server shutting down");
             }
         }
 
-        this._lastPingAt = Date.now();
+        await Promise.race([Promise.all(closed), expired]);
+        clearTimeout(timer);
     }
+
+    /**
+     * Removes the socket which is closed or expired.
+     */
+    private _removeSocket(socket: Socket<ClientMethods>, code: number, reason: string): void {
+        // leaves the rooms before the socket is removed to emit `leave_room` with the socket.
+        this.adapter.removeSocket(socket.id);
+        this.sockets.delete(socket.id);
+        this._sessions.delete(socket._sessionToken);
+        clearTimeout(this._expiryTimers.get(socket.id));
+        this._expiryTimers.delete(socket.id);
+        this._messageHandler.cancelPendingRequests(socket);
+        socket._stopHeartbeat();
+        socket._rejectResponseHandlers(new ConnectionClosedError(code, reason));
+        socket.emit("close");
+        socket.removeAllListeners();
+        socket.ws = null;
+        socket._endSession = null;
+        socket.rooms.clear();
+        socket.data.clear();
+    }
+
+    /**
+     * Keeps the socket for the grace period after the connection is lost.
+     */
+    private _suspendSession(socket: Socket<ClientMethods>, code: number, reason: string): void {
+        this._messageHandler.cancelPendingRequests(socket);
+        socket._stopHeartbeat();
+        socket._rejectResponseHandlers(new ConnectionClosedError(code, reason));
+        socket._suspend();
+        socket._endSession = (closeCode, closeReason) => this._removeSocket(socket, closeCode, closeReason);
+
+        this._expiryTimers.set(socket.id, setTimeout(() => {
+            this._removeSocket(socket, code, reason);
+        }, this.options.session.gracePeriod || 30000));
+    }
+
+    /**
+     * Takes over the suspended socket by the resume token of the request.
+     */
+    private _resumeSession(transport: Transport, req: http.IncomingMessage, codec: Codec): Socket<ClientMethods> | undefined {
+
+        if (!this.options.session) {
+            return;
+        }
+
+        const socket = this._sessions.get(getResumeToken(req));
+        // the replay buffer is encoded by the codec of the previous connection.
+        if (!socket || socket.codec !== codec) {
+            return;
+        }
+
+        if (!socket.suspended) {
+            // the previous connection is not detected as closed yet. (e.g. half-open)
+            const previous = socket.ws;
+            this._suspendSession(socket, 1006, "Resumed by another connection");
+            previous.terminate();
+        }
+
+        clearTimeout(this._expiryTimers.get(socket.id));
+        this._expiryTimers.delete(socket.id);
+        socket._resume(transport);
+
+        return socket;
+    }
+
+    /**
+     * Issues a new resume token and sends it to the client, then replays the missed notifications.
+     */
+    private _startSession(socket: Socket<ClientMethods>, resumed: boolean): void {
+
+        // the token is single-use.
+        this._sessions.delete(socket._sessionToken);
+        socket._sessionToken = uuidv4();
+        this._sessions.set(socket._sessionToken, socket);
+
+        const params: SessionParams = {
+            id: socket.id,
+            token: socket._sessionToken,
+            resumed
+        };
+        socket.send(socket.codec.encode({ jsonrpc: "2.0", method: SESSION_METHOD, params }), socket.codec.binary);
+        socket._flushReplayBuffer();
+    }
+
+    /**
+     * Joins the socket to the rooms of the events. (`rpc.on`)
+     */
+    private async _subscribe(socket: Socket<ClientMethods>, params: any, ctx: CallContext<Socket<ClientMethods>>): Promise<SubscriptionResult> {
+
+        if (!isEventNames(params)) {
+            ctx.error = createError(ErrorCode.InvalidParams);
+            return;
+        }
+
+        const result: SubscriptionResult = {};
+        for (const event of params) {
+            const options = this._declaredEvents.get(event);
+            if (!options) {
+                result[event] = "not found";
+                continue;
+            }
+            if (options.authorize && await options.authorize(socket, event) !== true) {
+                result[event] = "unauthorized";
+                continue;
+            }
+            socket.joinTo(eventRoom(event));
+            result[event] = "ok";
+        }
+
+        return result;
+    }
+
+    /**
+     * Leaves the socket from the rooms of the events. (`rpc.off`)
+     */
+    private _unsubscribe(socket: Socket<ClientMethods>, params: any, ctx: CallContext<Socket<ClientMethods>>): SubscriptionResult {
+
+        if (!isEventNames(params)) {
+            ctx.error = createError(ErrorCode.InvalidParams);
+            return;
+        }
+
+        const result: SubscriptionResult = {};
+        for (const event of params) {
+            if (this._declaredEvents.has(event) === false) {
+                result[event] = "not found";
+                continue;
+            }
+            socket.leaveFrom(eventRoom(event));
+            result[event] = "ok";
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Reads the body of the request as a string.
+ * @param maxPayload Rejects if the body exceeds this bytes.
+ */
+function readBody(req: http.IncomingMessage, maxPayload: number = Infinity): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxPayload) {
+                req.removeAllListeners("data");
+                req.resume();
+                reject(new Error("Payload too large"));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks).toString()));
+        req.on("error", reject);
+    });
+}
+
+/**
+ * Checks the encoded JSON message is the response. (not a notification)
+ */
+function isResponseMessage(data: string): boolean {
+    const message = JSON.parse(data);
+    return Array.isArray(message) || "id" in message;
+}
+
+/**
+ * Gets the resume token from the URL of the upgrade request.
+ */
+function getResumeToken(req: http.IncomingMessage): string | null {
+    if (!req || !req.url) {
+        return null;
+    }
+    try {
+        return new URL(req.url, "ws://localhost").searchParams.get(RESUME_TOKEN_PARAMETER);
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Encodes the message once per codec.
+ */
+function createEncoder(message: object): (codec: Codec) => string | Uint8Array {
+    const cache: Map<Codec, string | Uint8Array> = new Map();
+    return codec => {
+        if (!cache.has(codec)) {
+            cache.set(codec, codec.encode(message));
+        }
+        return cache.get(codec);
+    };
+}
+
+export interface SocketOptions {
+    /**
+     * how many ms to wait for a response of the method call to the client
+     */
+    methodCallTimeout?: number;
+    /**
+     * codec of the messages
+     */
+    codec?: Codec;
+    /**
+     * adapter which manages the rooms
+     */
+    adapter?: Adapter;
+    /**
+     * limits the send buffer for the notifications
+     */
+    backpressure?: BackpressureOptions;
+    /**
+     * keeps the missed notifications while suspended
+     */
+    session?: SessionOptions;
 }
 
 /**
  * Socket of JSON-RPC 2.0 WebSocket Server
  */
-export interface Socket extends ISocket {
+export interface Socket<ClientMethods = any> extends ISocket {
     on(event: "close", cb: (this: Socket) => void): this;
-    on(event: "notification_error", cb: (this: Socket, error: RPCError) => void): void;
+    on(event: "authenticated", cb: (this: Socket) => void): this;
+    on(event: "backpressure", cb: (this: Socket) => void): this;
+    on(event: "drain", cb: (this: Socket) => void): this;
+    on(event: "heartbeat_timeout", cb: (this: Socket) => void): this;
+    on(event: "suspend", cb: (this: Socket) => void): this;
+    on(event: "resume", cb: (this: Socket) => void): this;
+    on(event: "limit_exceeded", cb: (this: Socket, violation: LimitViolation) => void): this;
+    on(event: "notification_error", cb: (this: Socket, error: ErrorObject) => void): void;
     on(event: "error_response", cb: (this: Socket, response: ErrorResponse) => void): void;
+    on(event: "unknown_response", cb: (this: Socket, response: Response) => void): void;
 }
 
-export class Socket extends EventEmitter implements ISocket {
+/**
+ * @typeParam ClientMethods contract of the methods which the client provides.
+ */
+export class Socket<ClientMethods = any> extends EventEmitter implements ISocket {
 
     readonly id: string = uuidv4();
     readonly rooms: Set<string> = new Set();
@@ -292,11 +1030,62 @@ export class Socket extends EventEmitter implements ISocket {
     /** custom data store */
     readonly data: MapLike<any> = new MapLike();
 
-    /** (internal using for heartbeat) */
-    _pongAt: number = 0;
+    /** `false` until promoted if the handshake mode of the server is enabled */
+    authenticated: boolean = true;
+
+    readonly methodCallTimeout: number;
+    readonly codec: Codec;
+
+    /** `true` while the send buffer exceeds the high water mark of `backpressure` */
+    throttled: boolean = false;
+    /** number of the notifications dropped by the backpressure policy */
+    droppedMessages: number = 0;
+
+    /** round-trip time (ms) of the last ping. `undefined` until the first pong */
+    latency: number;
+    /** `true` while the connection is lost and the session is kept for the resumption */
+    suspended: boolean = false;
+
+    /** (internal) the current resume token */
+    _sessionToken: string;
+    /** (internal) removes the suspended socket from the server */
+    _endSession: (code: number, reason: string) => void;
 
-    constructor(public ws: WebSocket) {
+    private _responseHandlers: Map<number, [NodeJS.Timer, (value?: any) => void, (reason?: any) => void]> = new Map();
+    private _currentRequestId: number = 0;
+    private _adapter: Adapter;
+    private _backpressure: BackpressureOptions;
+    private _queuedMessages: Map<string, [any, boolean]> = new Map();
+    private _drainTimer: NodeJS.Timer;
+    private _heartbeat: { interval: number; timeout: number };
+    private _pingTimer: NodeJS.Timer;
+    private _pongTimer: NodeJS.Timer;
+    private _pingAt: number = 0;
+    private _replayBuffer: [any, boolean][] = [];
+    private _replayBufferSize: number;
+
+    /**
+     * The number of bytes of the messages which are queued but not yet sent.
+     */
+    get bufferedAmount(): number {
+        return this.ws && this.ws.bufferedAmount || 0;
+    }
+
+    /**
+     * The number of the notifications which wait for the drain. (`"drop-oldest"` policy)
+     */
+    get queuedMessages(): number {
+        return this._queuedMessages.size;
+    }
+
+    constructor(public ws: Transport, options: SocketOptions = {}) {
         super();
+
+        this.methodCallTimeout = options.methodCallTimeout || 20000;
+        this.codec = options.codec || JSONCodec;
+        this._adapter = options.adapter;
+        this._backpressure = options.backpressure;
+        this._replayBufferSize = options.session ? (options.session.replayBufferSize === undefined ? 100 : options.session.replayBufferSize) : 0;
     }
 
     /**
@@ -304,13 +1093,60 @@ export class Socket extends EventEmitter implements ISocket {
      * @param method The name of the method to be invoked.
      * @param params The parameters of the method.
      */
-    notify(method: string, params?: any): void {
+    notify<K extends MethodName<ClientMethods>>(method: K, params?: MethodParams<ClientMethods, K>): void {
         const data: Notification = {
             jsonrpc: "2.0",
             method: method,
-            params: params
+            params: params as object
         };
-        this.send(JSON.stringify(data));
+        this._sendNotification(this.codec.encode(data), this.codec.binary, method);
+    }
+
+    /**
+     * Calls a method of the client.
+     * @param method The name of the method to be invoked.
+     * @param params The parameters of the method.
+     */
+    call<K extends MethodName<ClientMethods>>(method: K, params: MethodParams<ClientMethods, K> = {} as any): Promise<MethodResult<ClientMethods, K>> {
+
+        if (!this.isOpen()) {
+            return Promise.reject(new ConnectionClosedError());
+        }
+
+        const id = this._currentRequestId++;
+        const data: Request = {
+            jsonrpc: "2.0",
+            method: method,
+            params: params as object,
+            id: id
+        };
+
+        const promise = new Promise<MethodResult<ClientMethods, K>>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this._responseHandlers.delete(id);
+                reject(new Error("JSON-RPC: method call timeout"));
+            }, this.methodCallTimeout);
+            this._responseHandlers.set(id, [timeout, resolve, reject]);
+        });
+        this.send(this.codec.encode(data), this.codec.binary);
+
+        return promise;
+    }
+
+    /**
+     * Marks the socket as authenticated. (for the handshake mode)
+     * @param identity The identity which will be merged into `socket#data`.
+     */
+    promote(identity?: { [key: string]: any }): void {
+        if (identity) {
+            for (const key of Object.keys(identity)) {
+                this.data.set(key, identity[key]);
+            }
+        }
+        if (this.authenticated === false) {
+            this.authenticated = true;
+            this.emit("authenticated");
+        }
     }
 
     /**
@@ -331,6 +1167,9 @@ export class Socket extends EventEmitter implements ISocket {
     joinTo(room: string): boolean {
         if (this.rooms.has(room) === false) {
             this.rooms.add(room);
+            if (this._adapter) {
+                this._adapter.join(this.id, room);
+            }
             return true;
         }
         return false;
@@ -343,6 +1182,9 @@ export class Socket extends EventEmitter implements ISocket {
     leaveFrom(room: string): boolean {
         if (this.rooms.has(room) === true) {
             this.rooms.delete(room);
+            if (this._adapter) {
+                this._adapter.leave(this.id, room);
+            }
             return true;
         }
         return false;
@@ -352,29 +1194,233 @@ export class Socket extends EventEmitter implements ISocket {
      * Leaves all the rooms that we've joined.
      */
     leaveFromAll(): void {
-        this.rooms.clear();
+        for (const room of Array.from(this.rooms)) {
+            this.leaveFrom(room);
+        }
     }
 
     /**
-     * Initiate a closing handshake.
+     * Initiate a closing handshake. The session is ended if the socket is suspended.
      * @param code A numeric value indicating the status code explaining why the connection is being closed.
      * @param reason A human-readable string explaining why the connection is closing.
      */
     close(code?: number, reason?: string): void {
+        if (!this.ws) {
+            // the connection is lost. ends the session if suspended.
+            if (this._endSession) {
+                this._endSession(code === undefined ? 1000 : code, reason);
+            }
+            return;
+        }
         this.ws.close(code, reason);
     }
 
     /**
-     * Forcibly close the connection.
+     * Forcibly close the connection. The session is ended if the socket is suspended.
      */
     terminate(): void {
-        this.ws.terminate();
+        if (!this.ws) {
+            if (this._endSession) {
+                this._endSession(1006, "Terminated");
+            }
+            return;
+        }
+        if (this.ws.terminate) {
+            this.ws.terminate();
+        } else {
+            this.ws.close(1006, "Terminated");
+        }
     }
 
     /**
      * Get the connection is open or not
      */
     isOpen() {
-        return this.ws !== undefined && this.ws.readyState === WS_OPEN;
+        return !!this.ws && this.ws.readyState === WS_OPEN;
+    }
+
+    /** (internal) sends the notification by the backpressure policy */
+    _sendNotification(data: any, binary: boolean, method: string = ""): void {
+
+        if (this.suspended) {
+            this._replayBuffer.push([data, binary]);
+            if (this._replayBuffer.length > this._replayBufferSize) {
+                this._replayBuffer.shift();
+                this.droppedMessages++;
+            }
+            return;
+        }
+
+        const options = this._backpressure;
+        if (!options || !this.isOpen()) {
+            this.send(data, binary);
+            return;
+        }
+
+        if (!this.throttled) {
+            if (this.bufferedAmount <= options.highWaterMark) {
+                this.send(data, binary);
+                return;
+            }
+            this._startThrottling();
+        }
+
+        switch (options.policy) {
+            case "disconnect":
+                this.droppedMessages++;
+                this.close(options.closeCode || 1013, "Slow consumer");
+                break;
+            case "drop-oldest":
+                // conflates by the method, the oldest one is replaced.
+                if (this._queuedMessages.delete(method)) {
+                    this.droppedMessages++;
+                }
+                this._queuedMessages.set(method, [data, binary]);
+                break;
+            default:
+                this.droppedMessages++;
+        }
+    }
+
+    /** (internal) schedules the ping to the socket. terminates it if the pong is not received in `timeout` ms */
+    _startHeartbeat(interval: number, timeout: number): void {
+        if (typeof this.ws.ping !== "function") {
+            // the transport without the ping. (e.g. stdio)
+            return;
+        }
+        this._heartbeat = { interval, timeout };
+        this._schedulePing();
+    }
+
+    /** (internal) stops the heartbeat */
+    _stopHeartbeat(): void {
+        clearTimeout(this._pingTimer);
+        clearTimeout(this._pongTimer);
+        this._pingTimer = null;
+        this._pongTimer = null;
+    }
+
+    /** (internal) measures the latency and schedules the next ping */
+    _handlePong(): void {
+        if (!this._pongTimer) {
+            // unsolicited pong
+            return;
+        }
+
+        clearTimeout(this._pongTimer);
+        this._pongTimer = null;
+        this.latency = Date.now() - this._pingAt;
+        this._schedulePing();
+    }
+
+    /** (internal) detaches the lost connection and keeps the notifications for the replay */
+    _suspend(): void {
+        this.suspended = true;
+        this.ws = null;
+
+        clearInterval(this._drainTimer);
+        this.throttled = false;
+        const queued = Array.from(this._queuedMessages.values());
+        this._queuedMessages.clear();
+        for (const [data, binary] of queued) {
+            this._sendNotification(data, binary);
+        }
+
+        this.emit("suspend");
+    }
+
+    /** (internal) attaches the new connection */
+    _resume(ws: Transport): void {
+        this.ws = ws;
+        this.suspended = false;
+        this.emit("resume");
+    }
+
+    /** (internal) sends the notifications which are missed while suspended */
+    _flushReplayBuffer(): void {
+        for (const [data, binary] of this._replayBuffer.splice(0)) {
+            this._sendNotification(data, binary);
+        }
+    }
+
+    /** (internal) resolves or rejects the method call by the response */
+    _handleMethodResponse(response: Response): void {
+
+        const handler = this._responseHandlers.get(response.id as number);
+
+        if (!handler) {
+            this.emit("unknown_response", response);
+            return;
+        }
+
+        this._responseHandlers.delete(response.id as number);
+
+        const [timer, resolve, reject] = handler;
+
+        clearTimeout(timer);
+
+        if (isSuccessResponse(response)) {
+            resolve(response.result);
+        } else {
+            reject(RPCError.from(response.error));
+        }
+    }
+
+    /** (internal) rejects all the pending method calls */
+    _rejectResponseHandlers(reason: any): void {
+        for (const [timer, , reject] of this._responseHandlers.values()) {
+            clearTimeout(timer);
+            reject(reason);
+        }
+        this._responseHandlers.clear();
+    }
+
+    private _schedulePing(): void {
+        this._pingTimer = setTimeout(() => {
+            this._pingTimer = null;
+            if (!this.isOpen()) {
+                return;
+            }
+
+            this._pongTimer = setTimeout(() => {
+                this._pongTimer = null;
+                this.emit("heartbeat_timeout");
+                this.terminate();
+            }, this._heartbeat.timeout);
+
+            this._pingAt = Date.now();
+            this.ws.ping();
+        }, this._heartbeat.interval);
+    }
+
+    private _startThrottling(): void {
+        this.throttled = true;
+        this._drainTimer = setInterval(() => this._checkDrain(), this._backpressure.drainInterval || 50);
+        this.emit("backpressure");
+    }
+
+    private _checkDrain(): void {
+
+        if (!this.isOpen()) {
+            clearInterval(this._drainTimer);
+            this._queuedMessages.clear();
+            return;
+        }
+
+        for (const [method, [data, binary]] of this._queuedMessages) {
+            if (this.bufferedAmount > this._backpressure.highWaterMark) {
+                return;
+            }
+            this._queuedMessages.delete(method);
+            this.send(data, binary);
+        }
+
+        if (this.bufferedAmount > this._backpressure.highWaterMark) {
+            return;
+        }
+
+        clearInterval(this._drainTimer);
+        this.throttled = false;
+        this.emit("drain");
     }
 }
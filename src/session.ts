@@ -0,0 +1,50 @@
+/**
+ * Name of the notification which carries the session to the client. (`SessionParams` as params)
+ * Sent as the first message of each connection if the session is enabled.
+ */
+export const SESSION_METHOD = "rpc.session";
+
+/**
+ * Name of the query parameter which presents the resume token on the reconnection.
+ */
+export const RESUME_TOKEN_PARAMETER = "resume";
+
+/**
+ * Options of the session resumption.
+ */
+export interface SessionOptions {
+    /**
+     * how many ms to keep the session (the id, rooms and data of the socket) after the connection is lost (default: 30000)
+     */
+    gracePeriod?: number;
+    /**
+     * how many notifications to keep for the replay while the connection is lost (default: 100)
+     * the oldest one is dropped if exceeded.
+     */
+    replayBufferSize?: number;
+}
+
+/**
+ * Params of `rpc.session`
+ */
+export interface SessionParams {
+    /**
+     * the id of the socket (stable across the resumptions)
+     */
+    id: string;
+    /**
+     * single-use token to resume the session on the next connection
+     */
+    token: string;
+    /**
+     * `true` if the previous session is resumed
+     */
+    resumed: boolean;
+}
+
+/**
+ * Checks the params of `rpc.session`.
+ */
+export function isSessionParams(params: any): params is SessionParams {
+    return !!params && typeof params.id === "string" && typeof params.token === "string";
+}
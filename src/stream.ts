@@ -0,0 +1,131 @@
+/**
+ * Checks the value is an `AsyncIterable`. (e.g. the result of an async generator function)
+ */
+export function isAsyncIterable(value: any): value is AsyncIterable<any> {
+    return typeof value === "object" && value !== null && typeof value[Symbol.asyncIterator] === "function";
+}
+
+interface Waiter<T> {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (reason: any) => void;
+}
+
+/**
+ * `AsyncIterableIterator` of the partial results which are pushed by the peer.
+ * Buffered chunks are yielded before the end or the error of the stream.
+ */
+export class ResultStream<T = any> implements AsyncIterableIterator<T> {
+
+    private _chunks: T[] = [];
+    private _waiters: Waiter<T>[] = [];
+    private _done: boolean = false;
+    private _failed: boolean = false;
+    private _error: any = undefined;
+
+    /**
+     * @param _cancel called when the consumer stops the stream before the end.
+     * @param _maxBufferedChunks the stream fails if the unconsumed chunks exceed this.
+     */
+    constructor(private _cancel: () => void, private _maxBufferedChunks: number = Infinity) {
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+
+    next(): Promise<IteratorResult<T>> {
+
+        if (this._chunks.length !== 0) {
+            return Promise.resolve({ value: this._chunks.shift(), done: false });
+        }
+
+        if (this._failed) {
+            this._failed = false;
+            const error = this._error;
+            this._error = undefined;
+            return Promise.reject(error);
+        }
+
+        if (this._done) {
+            return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve, reject) => this._waiters.push({ resolve, reject }));
+    }
+
+    return(): Promise<IteratorResult<T>> {
+
+        const done = this._done;
+
+        this._done = true;
+        this._failed = false;
+        this._error = undefined;
+        this._chunks.length = 0;
+        this._flushWaiters();
+
+        if (!done) {
+            this._cancel();
+        }
+
+        return Promise.resolve({ value: undefined, done: true });
+    }
+
+    /** (internal) adds a chunk */
+    push(value: T): void {
+
+        if (this._done) {
+            return;
+        }
+
+        const waiter = this._waiters.shift();
+        if (waiter) {
+            waiter.resolve({ value, done: false });
+            return;
+        }
+
+        if (this._chunks.length >= this._maxBufferedChunks) {
+            this.error(new Error("JSON-RPC: stream buffer overflow"));
+            this._cancel();
+            return;
+        }
+
+        this._chunks.push(value);
+    }
+
+    /** (internal) ends the stream */
+    end(): void {
+
+        if (this._done) {
+            return;
+        }
+
+        this._done = true;
+        this._flushWaiters();
+    }
+
+    /** (internal) fails the stream after the buffered chunks */
+    error(reason: any): void {
+
+        if (this._done) {
+            return;
+        }
+
+        this._done = true;
+
+        const waiter = this._waiters.shift();
+        if (waiter) {
+            waiter.reject(reason);
+            this._flushWaiters();
+            return;
+        }
+
+        this._failed = true;
+        this._error = reason;
+    }
+
+    private _flushWaiters(): void {
+        for (const waiter of this._waiters.splice(0)) {
+            waiter.resolve({ value: undefined, done: true });
+        }
+    }
+}
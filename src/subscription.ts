@@ -0,0 +1,57 @@
+import { Socket } from "./Socket";
+
+/**
+ * Name of the built-in method to subscribe the events. (event names as params)
+ */
+export const SUBSCRIBE_METHOD = "rpc.on";
+
+/**
+ * Name of the built-in method to unsubscribe the events. (event names as params)
+ */
+export const UNSUBSCRIBE_METHOD = "rpc.off";
+
+/**
+ * Names of the events in the contract.
+ * Contract is an interface of the payloads of the events. (objects or arrays, as the params of the notifications)
+ * e.g. `interface ServerEvents { tick: { time: number }; }`
+ */
+export type EventName<E> = keyof E & string;
+
+/**
+ * Status of each event in the result of `rpc.on` / `rpc.off`.
+ * `"not found"`: the event is not declared by the server.
+ * `"unauthorized"`: the subscription is denied by the `authorize` hook.
+ */
+export type SubscriptionStatus = "ok" | "not found" | "unauthorized";
+
+/**
+ * Result of `rpc.on` / `rpc.off`. (the status by the event name)
+ */
+export interface SubscriptionResult {
+    [event: string]: SubscriptionStatus;
+}
+
+/**
+ * Options of the event which is declared by the server.
+ */
+export interface EventOptions<SOC extends Socket = Socket> {
+    /**
+     * authorizes the subscription. return `false` to deny.
+     */
+    authorize?: (socket: SOC, event: string) => Promise<boolean> | boolean;
+}
+
+/**
+ * Name of the room which the subscribers of the event join.
+ * @param event The name of the event.
+ */
+export function eventRoom(event: string): string {
+    return `rpc.event:${event}`;
+}
+
+/**
+ * Checks the params of `rpc.on` / `rpc.off`.
+ */
+export function isEventNames(params: any): params is string[] {
+    return Array.isArray(params) && params.every(event => typeof event === "string");
+}
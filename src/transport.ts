@@ -0,0 +1,285 @@
+import * as http from "http";
+import * as https from "https";
+import EventEmitter = require("eventemitter3");
+
+/**
+ * `readyState` of the transport. (same as WebSocket)
+ */
+export const enum ReadyState {
+    CONNECTING = 0,
+    OPEN = 1,
+    CLOSING = 2,
+    CLOSED = 3
+}
+
+/**
+ * WebSocket-like connection which the server and the client run on.
+ * The WebSocket of `ws` is the transport as is.
+ * Events: `open`, `message` (data), `close` (code, reason), `error` (error) and optional `pong`.
+ */
+export interface Transport {
+    readonly readyState: number;
+    /**
+     * negotiated subprotocol (the name of the codec)
+     */
+    readonly protocol?: string;
+    readonly bufferedAmount?: number;
+
+    send(data: any, options?: { binary?: boolean } | ((err?: Error) => void), cb?: (err?: Error) => void): void;
+    close(code?: number, reason?: string): void;
+    /**
+     * closes the connection by force. (`close()` is used if not implemented)
+     */
+    terminate?(): void;
+    /**
+     * sends a ping. the heartbeat is disabled if not implemented.
+     */
+    ping?(): void;
+
+    on(event: string, listener: (...args: any[]) => void): this;
+    once(event: string, listener: (...args: any[]) => void): this;
+    off(event: string, listener: (...args: any[]) => void): this;
+    removeAllListeners(event?: string): this;
+}
+
+/**
+ * Base of the transports which are open on the next tick.
+ */
+export abstract class BaseTransport extends EventEmitter implements Transport {
+
+    readyState: number = ReadyState.CONNECTING;
+
+    constructor() {
+        super();
+
+        // after the listeners are added.
+        process.nextTick(() => {
+            if (this.readyState === ReadyState.CONNECTING) {
+                this.readyState = ReadyState.OPEN;
+                this.emit("open");
+            }
+        });
+    }
+
+    send(data: any, options?: { binary?: boolean } | ((err?: Error) => void), cb?: (err?: Error) => void): void {
+
+        if (typeof options === "function") {
+            cb = options;
+            options = {};
+        }
+
+        let error: Error;
+        if (this.readyState !== ReadyState.OPEN) {
+            error = new Error("JSON-RPC: transport is not open");
+        } else {
+            try {
+                this._write(data);
+            } catch (e) {
+                error = e;
+            }
+        }
+
+        if (cb) {
+            process.nextTick(cb, error);
+        } else if (error) {
+            throw error;
+        }
+    }
+
+    close(code: number = 1000, reason: string = ""): void {
+        if (this.readyState === ReadyState.CLOSED) {
+            return;
+        }
+        this.readyState = ReadyState.CLOSING;
+        this._end();
+        this._closed(code, reason);
+    }
+
+    /**
+     * Emits `close` once.
+     */
+    protected _closed(code: number, reason: string): void {
+        if (this.readyState === ReadyState.CLOSED) {
+            return;
+        }
+        this.readyState = ReadyState.CLOSED;
+        this.emit("close", code, reason);
+    }
+
+    protected abstract _write(data: any): void;
+    protected abstract _end(): void;
+}
+
+/**
+ * Newline-delimited JSON over the streams. (e.g. stdio of the child process)
+ * Binary codecs are not supported.
+ */
+export class StreamTransport extends BaseTransport {
+
+    private _buffer: string = "";
+    private _onData: (chunk: Buffer | string) => void;
+    private _onEnd: () => void;
+    private _onError: (error: Error) => void;
+
+    /**
+     * @param readable The stream to read the messages. (e.g. `process.stdin`, `child.stdout`)
+     * @param writable The stream to write the messages. (e.g. `process.stdout`, `child.stdin`)
+     */
+    constructor(readonly readable: NodeJS.ReadableStream, readonly writable: NodeJS.WritableStream) {
+        super();
+
+        this._onData = chunk => {
+            const lines = (this._buffer + chunk.toString()).split("\n");
+            this._buffer = lines.pop();
+            for (const line of lines) {
+                if (line.trim() !== "") {
+                    this.emit("message", line);
+                }
+            }
+        };
+        this._onEnd = () => this._closed(1006, "Stream ended");
+        this._onError = error => this.emit("error", error);
+
+        readable.on("data", this._onData);
+        readable.on("end", this._onEnd);
+        readable.on("error", this._onError);
+        writable.on("error", this._onError);
+    }
+
+    protected _write(data: any): void {
+        if (typeof data !== "string") {
+            throw new Error("JSON-RPC: binary messages are not supported on the stream transport");
+        }
+        this.writable.write(data + "\n");
+    }
+
+    protected _end(): void {
+        this.readable.removeListener("data", this._onData);
+        this.readable.removeListener("end", this._onEnd);
+        this.readable.removeListener("error", this._onError);
+        this.writable.removeListener("error", this._onError);
+        this.readable.pause();
+        // stdio of the process can't be closed.
+        if (this.writable !== process.stdout && this.writable !== process.stderr) {
+            this.writable.end();
+        }
+    }
+}
+
+/**
+ * The port of `worker_threads`. (`MessagePort`, `Worker` or `parentPort`)
+ */
+export interface MessagePortLike {
+    postMessage(value: any): void;
+    on(event: string, listener: (...args: any[]) => void): any;
+    removeListener(event: string, listener: (...args: any[]) => void): any;
+    close?(): void;
+}
+
+/**
+ * Messages over the `MessagePort` of `worker_threads`.
+ */
+export class MessagePortTransport extends BaseTransport {
+
+    private _onMessage: (data: any) => void;
+    private _onClose: () => void;
+
+    constructor(readonly port: MessagePortLike) {
+        super();
+
+        this._onMessage = data => {
+            // structured clone turns `Buffer` into `Uint8Array`.
+            if (data instanceof Uint8Array && !Buffer.isBuffer(data)) {
+                data = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+            }
+            this.emit("message", data);
+        };
+        this._onClose = () => this._closed(1006, "Port closed");
+
+        port.on("message", this._onMessage);
+        // `exit` of `Worker`
+        port.on("close", this._onClose);
+        port.on("exit", this._onClose);
+    }
+
+    protected _write(data: any): void {
+        this.port.postMessage(data);
+    }
+
+    protected _end(): void {
+        this.port.removeListener("message", this._onMessage);
+        this.port.removeListener("close", this._onClose);
+        this.port.removeListener("exit", this._onClose);
+        if (typeof this.port.close === "function") {
+            this.port.close();
+        }
+    }
+}
+
+/**
+ * Client-side transport which POSTs each message to the HTTP endpoint. (`Server#handleHTTP`)
+ * The server can't send the messages except the responses.
+ */
+export class HTTPTransport extends BaseTransport {
+
+    constructor(readonly url: string, readonly headers: http.OutgoingHttpHeaders = {}) {
+        super();
+    }
+
+    protected _write(data: any): void {
+
+        const request = (this.url.startsWith("https:") ? https : http).request(this.url, {
+            method: "POST",
+            headers: {
+                ...this.headers,
+                "content-type": "application/json"
+            }
+        }, res => {
+            const chunks: Buffer[] = [];
+            res.on("data", chunk => chunks.push(chunk));
+            res.on("end", () => {
+                if (res.statusCode !== 200 && res.statusCode !== 204) {
+                    this.emit("error", new Error(`JSON-RPC: HTTP ${res.statusCode} ${res.statusMessage}`));
+                    return;
+                }
+                const body = Buffer.concat(chunks).toString();
+                if (body !== "" && this.readyState === ReadyState.OPEN) {
+                    this.emit("message", body);
+                }
+            });
+        });
+        request.on("error", error => this.emit("error", error));
+        request.end(data);
+    }
+
+    protected _end(): void {
+        // stateless
+    }
+}
+
+/**
+ * (internal) Server-side transport of a HTTP request which keeps the sent messages.
+ */
+export class CollectingTransport extends BaseTransport {
+
+    readonly messages: any[] = [];
+    closeReason: string;
+
+    constructor() {
+        super();
+        this.readyState = ReadyState.OPEN;
+    }
+
+    close(code?: number, reason: string = ""): void {
+        this.closeReason = reason;
+        super.close(code, reason);
+    }
+
+    protected _write(data: any): void {
+        this.messages.push(data);
+    }
+
+    protected _end(): void {
+        // nothing to do
+    }
+}
@@ -0,0 +1,208 @@
+const { PubSubAdapter, LocalPubSub, ClusterPubSub, MessagePackCodec, setupClusterPrimary } = require("../");
+const { listen, connectSocket, sleep } = require("./helpers");
+const EventEmitter = require("events");
+const chai = require("chai");
+
+describe("Adapter", function () {
+
+    describe("room registry", function () {
+        let server;
+        const clients = [];
+
+        async function connect() {
+            const [client, socket] = await connectSocket(server);
+            clients.push(client);
+            return [client, socket];
+        }
+
+        this.beforeEach(async () => {
+            server = await listen();
+        });
+
+        it("should keep the index of the rooms and emit the membership events", async function () {
+            const events = [];
+            server.on("join_room", (room, socket) => events.push(["join_room", room, socket.id]));
+            server.on("leave_room", (room, socket) => events.push(["leave_room", room, socket.id]));
+            server.on("room_empty", room => events.push(["room_empty", room]));
+
+            const [client1, socket1] = await connect();
+            const [, socket2] = await connect();
+
+            socket1.joinTo("a");
+            socket1.joinTo("b");
+            socket2.joinTo("a");
+            chai.expect(server.rooms()).to.have.members(["a", "b"]);
+            chai.expect(server.roomSize("a")).eq(2);
+            chai.expect(Array.from(server.in("a").keys())).to.have.members([socket1.id, socket2.id]);
+
+            socket2.leaveFromAll();
+            chai.expect(server.roomSize("a")).eq(1);
+
+            await client1.disconnect();
+            await sleep(20);
+
+            chai.expect(server.rooms()).to.deep.equal([]);
+            chai.expect(events).to.deep.equal([
+                ["join_room", "a", socket1.id],
+                ["join_room", "b", socket1.id],
+                ["join_room", "a", socket2.id],
+                ["leave_room", "a", socket2.id],
+                ["leave_room", "a", socket1.id],
+                ["room_empty", "a"],
+                ["leave_room", "b", socket1.id],
+                ["room_empty", "b"]
+            ]);
+        });
+
+        it("should notify to multiple rooms except the sockets", async function () {
+            const [client1, socket1] = await connect();
+            const [client2, socket2] = await connect();
+            const [client3, socket3] = await connect();
+            socket1.joinTo("a");
+            socket1.joinTo("b");
+            socket2.joinTo("b");
+            socket3.joinTo("c");
+
+            const received = [];
+            client1.methods.set("hello", () => received.push("client1"));
+            client2.methods.set("hello", () => received.push("client2"));
+            client3.methods.set("hello", () => received.push("client3"));
+
+            server.notifyTo(["a", "b"], "hello");
+            await sleep(20);
+            chai.expect(received).to.have.members(["client1", "client2"]);
+
+            received.length = 0;
+            server.notifyTo(["a", "b", "c"], "hello", {}, [socket1.id]);
+            await sleep(20);
+            chai.expect(received).to.have.members(["client2", "client3"]);
+        });
+
+        this.afterEach(async () => {
+            for (const client of clients.splice(0)) {
+                await client.disconnect();
+            }
+            await server.close();
+        });
+    });
+
+    describe("PubSubAdapter", function () {
+        const servers = [];
+        const clients = [];
+
+        async function listenWith(pubsub, options = {}) {
+            const server = await listen({
+                adapter: host => new PubSubAdapter(host, { pubsub, requestTimeout: 100 }),
+                ...options
+            });
+            servers.push(server);
+            return server;
+        }
+
+        async function connect(server, options = {}) {
+            const [client, socket] = await connectSocket(server, options);
+            clients.push(client);
+            return [client, socket];
+        }
+
+        it("should deliver the notifications to the rooms of all servers", async function () {
+            const pubsub = new LocalPubSub();
+            const server1 = await listenWith(pubsub);
+            const server2 = await listenWith(pubsub);
+
+            const [client1, socket1] = await connect(server1);
+            const [client2, socket2] = await connect(server2);
+            const [client3] = await connect(server2);
+            socket1.joinTo("room");
+            socket2.joinTo("room");
+
+            const received = [];
+            client1.methods.set("hello", (socket, params) => received.push(["client1", params.from]));
+            client2.methods.set("hello", (socket, params) => received.push(["client2", params.from]));
+            client3.methods.set("hello", (socket, params) => received.push(["client3", params.from]));
+
+            server1.notifyTo("room", "hello", { from: 1 });
+            await sleep(50);
+            chai.expect(received).to.have.deep.members([["client1", 1], ["client2", 1]]);
+
+            received.length = 0;
+            server2.broadcast("hello", { from: 2 });
+            await sleep(50);
+            chai.expect(received).to.have.deep.members([["client1", 2], ["client2", 2], ["client3", 2]]);
+        });
+
+        it("should deliver the binary params to the other servers as is", async function () {
+            const pubsub = new LocalPubSub();
+            const server1 = await listenWith(pubsub, { codec: MessagePackCodec });
+            const server2 = await listenWith(pubsub, { codec: MessagePackCodec });
+
+            const [client1] = await connect(server1, { codec: MessagePackCodec });
+            const [client2] = await connect(server2, { codec: MessagePackCodec });
+
+            const received = [];
+            client1.methods.set("blob", (socket, params) => received.push(["client1", params.data]));
+            client2.methods.set("blob", (socket, params) => received.push(["client2", params.data]));
+
+            server1.broadcast("blob", { data: Buffer.from([1, 2, 3]) });
+            await sleep(50);
+
+            chai.expect(received).to.have.lengthOf(2);
+            for (const [, data] of received) {
+                chai.expect(data).instanceOf(Uint8Array);
+                chai.expect(Array.from(data)).to.deep.equal([1, 2, 3]);
+            }
+        });
+
+        it("should query the members of the room across the servers", async function () {
+            const pubsub = new LocalPubSub();
+            const server1 = await listenWith(pubsub);
+            const server2 = await listenWith(pubsub);
+
+            const [, socket1] = await connect(server1);
+            const [, socket2] = await connect(server2);
+            await connect(server2);
+            socket1.joinTo("room");
+            socket2.joinTo("room");
+
+            chai.expect(await server1.fetchSocketIds("room")).to.have.members([socket1.id, socket2.id]);
+            chai.expect(await server2.fetchSocketIds()).to.have.lengthOf(3);
+
+            socket2.leaveFrom("room");
+            chai.expect(await server1.fetchSocketIds("room")).to.deep.equal([socket1.id]);
+        });
+
+        this.afterEach(async () => {
+            for (const client of clients.splice(0)) {
+                await client.disconnect();
+            }
+            for (const server of servers.splice(0)) {
+                await server.close();
+            }
+        });
+    });
+
+    describe("ClusterPubSub", function () {
+        it("should relay the messages between the workers through the primary", async function () {
+            const cluster = new EventEmitter();
+            setupClusterPrimary(cluster);
+
+            const workers = [1, 2].map(id => {
+                const proc = new EventEmitter();
+                const worker = { id, send: message => setImmediate(() => proc.emit("message", message)) };
+                proc.send = message => setImmediate(() => cluster.emit("message", worker, message));
+                return new ClusterPubSub(proc);
+            });
+
+            const received = [];
+            workers[0].subscribe("ch", message => received.push(["worker1", message]));
+            workers[1].subscribe("ch", message => received.push(["worker2", message]));
+            await sleep(10);
+
+            chai.expect(await workers[0].numSubscribers("ch")).eq(2);
+
+            workers[0].publish("ch", "hello");
+            await sleep(10);
+            chai.expect(received).to.have.deep.members([["worker1", "hello"], ["worker2", "hello"]]);
+        });
+    });
+});
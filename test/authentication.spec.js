@@ -0,0 +1,83 @@
+const { Client, AuthenticationError } = require("../");
+const { listen, getUri, connect } = require("./helpers");
+const chai = require("chai");
+
+describe("Authentication", function () {
+    let server;
+    let client;
+
+    describe("authenticate hook", () => {
+        it("should attach the identity to the socket", async function () {
+            server = await listen({
+                authenticate: req => ({ user: req.headers["x-user"] })
+            });
+            const connection = new Promise(resolve => server.once("connection", resolve));
+
+            client = new Client(getUri(server), { reconnection: false, headers: { "x-user": "alice" } });
+
+            const socket = await connection;
+            chai.expect(socket.data.get("user")).eq("alice");
+            chai.expect(socket.authenticated).is.true;
+        });
+
+        it("should reject the handshake with the HTTP status", async function () {
+            server = await listen({
+                authenticate: async () => {
+                    throw new AuthenticationError(403, "Forbidden");
+                }
+            });
+            let connected = false;
+            server.on("connection", () => connected = true);
+
+            client = new Client(getUri(server), { reconnection: false, autoConnect: false });
+            client.on("error", () => void 0);
+
+            try {
+                await client.connect();
+                chai.assert.fail();
+            } catch (e) {
+                chai.expect(e).has.property("message").include("403");
+            }
+            chai.expect(connected).is.false;
+        });
+    });
+
+    describe("handshake mode", () => {
+        it("should allow only listed methods until promoted", async function () {
+            server = await listen({
+                handshake: { methods: ["login"] }
+            });
+            server.methods.set("login", (socket, params) => {
+                socket.promote({ user: params.user });
+            });
+            server.methods.set("whoami", socket => socket.data.get("user"));
+
+            client = await connect(server);
+
+            try {
+                await client.call("whoami");
+                chai.assert.fail();
+            } catch (e) {
+                chai.expect(e).has.property("code", -32001);
+            }
+
+            await client.call("login", { user: "bob" });
+            chai.expect(await client.call("whoami")).eq("bob");
+        });
+
+        it("should close the socket which is not promoted in time", async function () {
+            server = await listen({
+                handshake: { methods: [], timeout: 10 }
+            });
+
+            client = new Client(getUri(server), { reconnection: false });
+            const code = await new Promise(resolve => client.once("disconnect", resolve));
+            chai.expect(code).eq(1008);
+        });
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
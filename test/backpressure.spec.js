@@ -0,0 +1,87 @@
+const { listen, connectSocket, sleep } = require("./helpers");
+const chai = require("chai");
+
+describe("Backpressure", function () {
+    let server;
+    let client;
+    let socket;
+    let bufferedAmount;
+
+    async function connectSlowConsumer(backpressure) {
+        server = await listen({
+            backpressure: { highWaterMark: 1024, drainInterval: 5, ...backpressure }
+        });
+        [client, socket] = await connectSocket(server);
+
+        // emulates the slow consumer.
+        bufferedAmount = 0;
+        Object.defineProperty(socket.ws, "bufferedAmount", { get: () => bufferedAmount, configurable: true });
+    }
+
+    it("should drop the new notifications while the socket is slow", async function () {
+        await connectSlowConsumer({ policy: "drop-newest" });
+
+        const received = [];
+        client.methods.set("tick", (c, params) => received.push(params.n));
+        const events = [];
+        socket.on("backpressure", () => events.push("backpressure"));
+        socket.on("drain", () => events.push("drain"));
+
+        bufferedAmount = 2048;
+        socket.notify("tick", { n: 1 });
+        server.broadcast("tick", { n: 2 });
+        chai.expect(socket.droppedMessages).eq(2);
+        chai.expect(server.stats().throttled).to.deep.equal([{
+            id: socket.id,
+            bufferedAmount: 2048,
+            queuedMessages: 0,
+            droppedMessages: 2
+        }]);
+
+        bufferedAmount = 0;
+        await sleep(20);
+        server.broadcast("tick", { n: 3 });
+        await sleep(20);
+
+        chai.expect(received).to.deep.equal([3]);
+        chai.expect(events).to.deep.equal(["backpressure", "drain"]);
+        chai.expect(server.stats()).to.deep.equal({ sockets: 1, throttled: [] });
+    });
+
+    it("should send the latest notification of each method after drained", async function () {
+        await connectSlowConsumer({ policy: "drop-oldest" });
+
+        const received = [];
+        client.methods.set("a", (c, params) => received.push(["a", params.n]));
+        client.methods.set("b", (c, params) => received.push(["b", params.n]));
+
+        bufferedAmount = 2048;
+        server.broadcast("a", { n: 1 });
+        server.broadcast("b", { n: 1 });
+        server.broadcast("a", { n: 2 });
+        chai.expect(socket.queuedMessages).eq(2);
+        chai.expect(socket.droppedMessages).eq(1);
+
+        bufferedAmount = 0;
+        await sleep(30);
+
+        chai.expect(received).to.deep.equal([["b", 1], ["a", 2]]);
+        chai.expect(socket.throttled).is.false;
+    });
+
+    it("should close the slow socket with the close code", async function () {
+        await connectSlowConsumer({ policy: "disconnect", closeCode: 4000 });
+
+        const closing = new Promise(resolve => client.once("disconnect", resolve));
+
+        bufferedAmount = 2048;
+        server.broadcast("tick", { n: 1 });
+
+        chai.expect(await closing).eq(4000);
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
@@ -0,0 +1,86 @@
+const { Client, JSONCodec, MessagePackCodec, CBORCodec } = require("../");
+const { listen, getUri, connect: connectClient } = require("./helpers");
+const chai = require("chai");
+
+describe("Codec", function () {
+    const value = {
+        nil: null,
+        bool: [true, false],
+        int: [0, 1, 127, 128, 255, 256, 65535, 65536, 4294967295, -1, -32, -33, -128, -129, -32768, -32769, -2147483648],
+        float: [0.5, -1.25, 1e100, 4294967296, -4294967297],
+        str: ["", "a", "あいうえお", "x".repeat(31), "x".repeat(32), "x".repeat(300), "x".repeat(70000)],
+        bin: Buffer.from([0, 1, 2, 255]),
+        arr: new Array(20).fill(1),
+        map: Object.fromEntries(new Array(20).fill(0).map((v, i) => [`k${i}`, i])),
+        nested: { a: [{ b: { c: [] } }] }
+    };
+
+    for (const codec of [MessagePackCodec, CBORCodec]) {
+        describe(codec.name, () => {
+            it("should round-trip the value", () => {
+                const decoded = codec.decode(codec.encode(value));
+                chai.expect(decoded).deep.eq(value);
+                chai.expect(decoded.bin).instanceOf(Uint8Array);
+            });
+
+            it("should convert the value like JSON", () => {
+                const date = new Date();
+                const decoded = codec.decode(codec.encode({ a: undefined, b: [undefined], c: NaN, d: date }));
+                chai.expect(decoded).deep.eq(JSON.parse(JSON.stringify({ a: undefined, b: [undefined], c: NaN, d: date })));
+            });
+
+            it("should throw on invalid data", () => {
+                chai.expect(() => codec.decode(codec.encode("abc").subarray(0, 2))).throw();
+                chai.expect(() => codec.decode(Buffer.concat([codec.encode(1), codec.encode(2)]))).throw();
+            });
+        });
+    }
+
+    describe("negotiation", function () {
+        let server;
+        let client;
+
+        this.beforeEach(async () => {
+            server = await listen({ codec: [JSONCodec, CBORCodec, MessagePackCodec] });
+            server.methods.set("echo", (socket, params) => ({ codec: socket.codec.name, data: params.data }));
+        });
+
+        async function connect(options) {
+            client = await connectClient(server, options);
+        }
+
+        it("should use the codec offered by the client", async function () {
+            await connect({ codec: [MessagePackCodec, CBORCodec] });
+
+            const res = await client.call("echo", { data: Buffer.from("binary") });
+            chai.expect(client.codec).eq(MessagePackCodec);
+            chai.expect(res.codec).eq(MessagePackCodec.name);
+            chai.expect(Buffer.from(res.data).toString()).eq("binary");
+        });
+
+        it("should use the first codec if not negotiated", async function () {
+            await connect({});
+
+            const res = await client.call("echo", { data: "text" });
+            chai.expect(client.codec).eq(JSONCodec);
+            chai.expect(res).deep.eq({ codec: JSONCodec.name, data: "text" });
+        });
+
+        it("should not agree on the codec which the server doesn't support", async function () {
+            await server.close();
+            server = await listen();
+
+            client = new Client(getUri(server), { reconnection: false, autoConnect: false, codec: MessagePackCodec });
+            client.on("error", () => void 0);
+
+            const error = await client.connect().catch(e => e);
+            chai.expect(error.message).include("subprotocol");
+            chai.expect(client.isConnected()).is.false;
+        });
+
+        this.afterEach(async () => {
+            await client.disconnect();
+            await server.close();
+        });
+    });
+});
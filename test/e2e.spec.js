@@ -1,4 +1,4 @@
-const { Server, Client } = require("../");
+const { Server, Client, writeOpenRPCDocument } = require("../");
 const chai = require("chai");
 
 describe("Server-Client", function () {
@@ -68,6 +68,22 @@ describe("Server-Client", function () {
                 chai.expect(actual).deep.eq(res);
             });
 
+            it("can be called by proxy", async function () {
+                server.methods.set("add", (socket, params) => params.a + params.b);
+
+                const actual = await client.proxy.add({ a: 1, b: 2 });
+                chai.expect(actual).eq(3);
+            });
+
+            it("should respond with the falsy results as is", async function () {
+                server.methods.set("echo", (socket, params) => params.value);
+
+                chai.expect(await client.call("echo", { value: 0 })).eq(0);
+                chai.expect(await client.call("echo", { value: false })).eq(false);
+                chai.expect(await client.call("echo", { value: "" })).eq("");
+                chai.expect(await client.call("echo", {})).is.null;
+            });
+
             it("should throw method not found error", async function () {
                 try {
                     await client.call("myMethod");
@@ -77,6 +93,27 @@ describe("Server-Client", function () {
                 }
             });
 
+            it("can be cancelled by AbortSignal", async function () {
+                const aborted = new Promise(resolve => {
+                    server.methods.set("myMethod", (socket, params, ctx) => {
+                        ctx.signal.addEventListener("abort", resolve);
+                        return new Promise(() => void 0);
+                    });
+                });
+
+                const controller = new AbortController();
+                const calling = client.call("myMethod", {}, { signal: controller.signal });
+                setTimeout(() => controller.abort(), 5);
+
+                try {
+                    await calling;
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("name", "AbortError");
+                }
+                await aborted;
+            });
+
             it("should not send message even after recconect", async () => {
                     let called = false;
                     server.methods.set("myMethod", () => {
@@ -96,6 +133,85 @@ describe("Server-Client", function () {
                     chai.expect(called).is.false;
             });
 
+            it("should be rejected when the connection is closed", async function () {
+                server.methods.set("myMethod", socket => {
+                    socket.close(4000, "bye");
+                    return new Promise(() => void 0);
+                });
+                client.config.reconnection = false;
+
+                try {
+                    await client.call("myMethod");
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("name", "ConnectionClosedError");
+                    chai.expect(e).has.property("code", 4000);
+                }
+            });
+
+            it("should be retried after reconnected with `retryOnReconnect`", async function () {
+                const port = server.wss.address().port;
+                const retryingClient = new Client(`ws://localhost:${port}/`, {
+                    methodCallTimeout: 1000,
+                    reconnectionDelay: 10,
+                    reconnectionDelayMax: 10
+                });
+                await new Promise(resolve => retryingClient.once("connected", resolve));
+
+                let count = 0;
+                server.methods.set("flaky", socket => {
+                    if (++count === 1) {
+                        socket.close();
+                        return new Promise(() => void 0);
+                    }
+                    return "ok";
+                });
+
+                try {
+                    const calling = retryingClient.call("flaky", {}, { retryOnReconnect: true });
+                    const notRetried = retryingClient.call("flaky");
+                    chai.expect(await calling).eq("ok");
+                    await notRetried.then(() => chai.assert.fail(), e => {
+                        chai.expect(e).has.property("name", "ConnectionClosedError");
+                    });
+                } finally {
+                    await retryingClient.disconnect();
+                }
+            });
+
+            it("should keep waiting for the buffered call while the reconnection fails", async function () {
+                const tempServer = new Server({ wss: { port: 0 }, open: false });
+                await new Promise(resolve => tempServer.open(resolve));
+                const port = tempServer.wss.address().port;
+                const offlineClient = new Client(`ws://localhost:${port}/`, {
+                    methodCallTimeout: 5000,
+                    reconnectionDelay: 10,
+                    reconnectionDelayMax: 10,
+                    reconnectionJitter: 0
+                });
+                offlineClient.on("error", () => void 0);
+                await new Promise(resolve => offlineClient.once("connected", resolve));
+
+                const disconnected = new Promise(resolve => offlineClient.once("disconnect", resolve));
+                await tempServer.close();
+                await disconnected;
+
+                const calling = offlineClient.call("hello");
+                // one of the reconnection attempts fails.
+                await new Promise(resolve => offlineClient.once("reconnect_error", resolve));
+
+                const restartedServer = new Server({ wss: { port }, open: false });
+                restartedServer.methods.set("hello", () => "world");
+                await new Promise(resolve => restartedServer.open(resolve));
+
+                try {
+                    chai.expect(await calling).eq("world");
+                } finally {
+                    await offlineClient.disconnect();
+                    await restartedServer.close();
+                }
+            });
+
             describe("with `sendingMessageBuffering`", function () {
                 this.beforeAll(() => {
                     client.config.bufferSendingMessages = true;
@@ -124,6 +240,75 @@ describe("Server-Client", function () {
             });
         });
 
+        describe("batch", function () {
+            it("can send calls and notifications in one message", async function () {
+                const notified = [];
+                server.methods.set("add", (socket, params) => params.a + params.b);
+                server.methods.set("log", (socket, params) => {
+                    notified.push(params.message);
+                });
+
+                const batch = client.batch();
+                const sum = batch.call("add", { a: 1, b: 2 });
+                batch.notify("log", { message: "hello" });
+                const missing = batch.call("missing");
+                const results = await batch.send();
+
+                chai.expect(await sum).eq(3);
+                chai.expect(notified).deep.eq(["hello"]);
+                chai.expect(results).has.length(2);
+                chai.expect(results[0]).deep.eq({ status: "fulfilled", value: 3 });
+                chai.expect(results[1]).has.property("status", "rejected");
+                chai.expect(results[1].reason).has.property("code", -32601);
+                try {
+                    await missing;
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32601);
+                }
+            });
+
+            it("can be processed in parallel", async function () {
+                server.options.batchConcurrency = "parallel";
+                let release;
+                const released = new Promise(resolve => release = resolve);
+                server.methods.set("wait", async () => {
+                    await released;
+                    return "waited";
+                });
+                server.methods.set("release", () => {
+                    release();
+                    return "released";
+                });
+
+                const batch = client.batch();
+                batch.call("wait");
+                batch.call("release");
+                const results = await batch.send();
+                chai.expect(results.map(result => result.value)).deep.eq(["waited", "released"]);
+            });
+
+            it("should resolve an all-notification batch without reply", async function () {
+                const called = new Promise(resolve => server.methods.set("log", resolve));
+
+                const results = await client.batch().notify("log").notify("log").send();
+                chai.expect(results).deep.eq([]);
+                await called;
+            });
+
+            it("should not leave the response handlers when the batch is rejected", async function () {
+                const offlineClient = new Client("ws://localhost:1/", { bufferSendingMessages: false, autoConnect: false });
+
+                const batch = offlineClient.batch();
+                const calling = batch.call("add", { a: 1, b: 2 });
+                const results = await batch.send();
+
+                chai.expect(results[0]).has.property("status", "rejected");
+                await calling.then(() => chai.assert.fail(), e => chai.expect(e.message).include("rejected"));
+                chai.expect(offlineClient._responseHandlers.size).eq(0);
+            });
+        });
+
         describe("notification", () => {
             it("can be sent", function (done) {
                 server.methods.set("myMethod", () => {
@@ -152,6 +337,228 @@ describe("Server-Client", function () {
             });
         });
 
+        describe("with `preserveMessageOrder`", function () {
+            it("should process messages in arrival order", async function () {
+                server.options.preserveMessageOrder = true;
+                const order = [];
+                server.methods.set("slow", async () => {
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                    order.push("slow");
+                });
+                server.methods.set("fast", () => {
+                    order.push("fast");
+                });
+
+                await Promise.all([client.call("slow"), client.call("fast")]);
+                chai.expect(order).deep.eq(["slow", "fast"]);
+            });
+
+            it("should not queue the responses to the calls of the method", async function () {
+                server.options.preserveMessageOrder = true;
+                client.methods.set("confirm", () => true);
+                server.methods.set("delete", async socket => {
+                    return await socket.call("confirm") ? "deleted" : "kept";
+                });
+
+                chai.expect(await client.call("delete")).eq("deleted");
+            });
+
+            it("should not queue the cancellation of the running method", async function () {
+                server.options.preserveMessageOrder = true;
+                const aborted = new Promise(resolve => {
+                    server.methods.set("myMethod", (socket, params, ctx) => {
+                        ctx.signal.addEventListener("abort", resolve);
+                        return new Promise(() => void 0);
+                    });
+                });
+
+                const controller = new AbortController();
+                const calling = client.call("myMethod", {}, { signal: controller.signal }).catch(e => e);
+                setTimeout(() => controller.abort(), 5);
+
+                chai.expect(await calling).has.property("name", "AbortError");
+                await aborted;
+            });
+        });
+
+        describe("schema validation", function () {
+            const schema = {
+                type: "object",
+                properties: {
+                    a: { type: "integer" },
+                    b: { type: "integer", minimum: 0 }
+                },
+                required: ["a", "b"],
+                additionalProperties: false
+            };
+
+            it("should call the method with valid params", async function () {
+                server.register("add", (socket, params) => params.a + params.b, { params: schema, result: { type: "integer" } });
+
+                chai.expect(await client.call("add", { a: 1, b: 2 })).eq(3);
+            });
+
+            it("should throw invalid params error with validation errors", async function () {
+                let called = false;
+                server.register("add", () => {
+                    called = true;
+                }, { params: schema });
+
+                try {
+                    await client.call("add", { a: "1", c: 0 });
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32602);
+                    chai.expect(e.data).deep.include.members([
+                        { path: "", message: "must have required property 'b'" },
+                        { path: "/a", message: "must be integer" },
+                        { path: "/c", message: "must not be additional property" }
+                    ]);
+                }
+                chai.expect(called).is.false;
+            });
+
+            it("should throw internal error with invalid result", async function () {
+                server.register("add", () => "3", { result: { type: "integer" } });
+
+                try {
+                    await client.call("add", { a: 1, b: 2 });
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32603);
+                }
+            });
+
+            it("should keep the schema by the method name", async function () {
+                const echo = (socket, params) => params;
+                server.register("setName", echo, { params: { type: "object", required: ["name"] } });
+                server.register("setAge", echo, { params: { type: "object", required: ["age"] } });
+
+                chai.expect(await client.call("setName", { name: "alice" })).deep.eq({ name: "alice" });
+                chai.expect(await client.call("setAge", { age: 20 })).deep.eq({ age: 20 });
+
+                // replaced without the schema
+                server.methods.set("setAge", echo);
+                chai.expect(await client.call("setAge", {})).deep.eq({});
+
+                server.methods.delete("setName");
+                server.methods.set("setName", echo);
+                chai.expect(await client.call("setName", {})).deep.eq({});
+            });
+        });
+
+        describe("service discovery", function () {
+            it("should return OpenRPC document by `rpc.discover`", async function () {
+                server.options.discover = { title: "test", version: "1.0.0" };
+                server.register("add", (socket, params) => params.a + params.b, {
+                    summary: "adds numbers",
+                    deprecated: true,
+                    params: {
+                        type: "object",
+                        properties: {
+                            a: { type: "number" },
+                            b: { type: "number", description: "second" }
+                        },
+                        required: ["a"]
+                    },
+                    result: { type: "number" }
+                });
+                server.methods.set("noop", () => void 0);
+
+                const doc = await client.call("rpc.discover");
+                chai.expect(doc).has.property("openrpc");
+                chai.expect(doc.info).deep.eq({ title: "test", version: "1.0.0" });
+                chai.expect(doc.methods).deep.eq([
+                    {
+                        name: "add",
+                        summary: "adds numbers",
+                        deprecated: true,
+                        paramStructure: "by-name",
+                        params: [
+                            { name: "a", schema: { type: "number" }, required: true },
+                            { name: "b", description: "second", schema: { type: "number", description: "second" } }
+                        ],
+                        result: { name: "result", schema: { type: "number" } }
+                    },
+                    {
+                        name: "noop",
+                        paramStructure: "by-name",
+                        params: [],
+                        result: { name: "result", schema: {} }
+                    }
+                ]);
+            });
+
+            it("should not be available by default", async function () {
+                try {
+                    await client.call("rpc.discover");
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32601);
+                }
+            });
+
+            it("can write OpenRPC document to the file", async function () {
+                server.methods.set("noop", () => void 0);
+                const path = require("path").join(require("os").tmpdir(), `openrpc-${process.pid}.json`);
+
+                await writeOpenRPCDocument(server, path, { title: "file", version: "1.0.0" });
+                const doc = JSON.parse(require("fs").readFileSync(path, "utf8"));
+                require("fs").unlinkSync(path);
+
+                chai.expect(doc.info).has.property("title", "file");
+                chai.expect(doc.methods.map(method => method.name)).deep.eq(["noop"]);
+            });
+        });
+
+        describe("middleware", function () {
+            this.beforeAll(() => {
+                server.use(async (ctx, next) => {
+                    if (ctx.method !== "mw.echo" && ctx.method !== "mw.alias" && ctx.method !== "mw.denied") {
+                        return next();
+                    }
+                    if (ctx.method === "mw.denied") {
+                        throw { code: -32001, message: "Unauthorized" };
+                    }
+                    if (ctx.method === "mw.alias") {
+                        ctx.method = "mw.echo";
+                    }
+                    ctx.params = { value: ctx.params.value + 1 };
+                    await next();
+                    ctx.result = { wrapped: ctx.result };
+                });
+            });
+
+            it("can rewrite params and result", async function () {
+                server.methods.set("mw.echo", (socket, params) => params.value);
+
+                const actual = await client.call("mw.echo", { value: 1 });
+                chai.expect(actual).deep.eq({ wrapped: 2 });
+            });
+
+            it("can rewrite method", async function () {
+                server.methods.set("mw.echo", (socket, params) => params.value);
+
+                const actual = await client.call("mw.alias", { value: 1 });
+                chai.expect(actual).deep.eq({ wrapped: 2 });
+            });
+
+            it("can short-circuit with an error", async function () {
+                let called = false;
+                server.methods.set("mw.denied", () => {
+                    called = true;
+                });
+
+                try {
+                    await client.call("mw.denied");
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32001);
+                }
+                chai.expect(called).is.false;
+            });
+        });
+
         describe("invalid request handling", function ()  {
             let messageListener;
             describe("none json message", () => {
@@ -212,6 +619,42 @@ describe("Server-Client", function () {
     });
 
     describe("client-side", () => {
+        describe("procedure call", function () {
+            it("can return value", async function () {
+                const res = { a: ["the return value"] };
+                client.methods.set("myMethod", (socket, params) => {
+                    return { a: [params.value] };
+                });
+
+                const actual = await serverSocket.call("myMethod", { value: "the return value" });
+                chai.expect(actual).deep.eq(res);
+            });
+
+            it("should throw method not found error", async function () {
+                try {
+                    await serverSocket.call("myMethod");
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("code", -32601);
+                }
+            });
+
+            it("should be rejected when the socket is closed", async function () {
+                client.methods.set("myMethod", () => new Promise(() => void 0));
+                client.config.reconnection = false;
+
+                const calling = serverSocket.call("myMethod");
+                serverSocket.close();
+
+                try {
+                    await calling;
+                    chai.assert.fail();
+                } catch (e) {
+                    chai.expect(e).has.property("message").include("closed");
+                }
+            });
+        });
+
         describe("notification", function () {
             it("can be sent", function (done) {
                 client.methods.set("myMethod", () => {
@@ -251,6 +694,9 @@ describe("Server-Client", function () {
     });
 
     this.afterEach(() => {
+        delete server.options.batchConcurrency;
+        delete server.options.preserveMessageOrder;
+        delete server.options.discover;
         server.methods.clear();
         server.removeAllListeners();
         client.methods.clear();
@@ -0,0 +1,128 @@
+const { Server, RPCError, InvalidParamsError, MethodNotFoundError, InternalError, ServerError, createLoopbackPair } = require("../");
+const chai = require("chai");
+
+class NotFound extends Error {}
+
+describe("RPCError", function () {
+    let server;
+    let client;
+
+    async function connect(options = {}) {
+        server = new Server(options);
+        server.methods.set("fail", (socket, params) => {
+            throw new RPCError(params.code, params.message, params.data);
+        });
+        server.methods.set("invalid", () => {
+            throw new InvalidParamsError("id is required", { field: "id" });
+        });
+        server.methods.set("broken", () => {
+            throw new TypeError("x is not a function");
+        });
+        server.methods.set("find", () => {
+            throw new NotFound("no such item");
+        });
+        server.methods.set("throw", (socket, params) => {
+            throw params.value;
+        });
+        server.methods.set("invalidResponse", (socket, params, ctx) => {
+            socket.send(JSON.stringify({ jsonrpc: "2.0", error: params.error, id: ctx.id }));
+            return new Promise(() => void 0);
+        });
+
+        ({ client } = createLoopbackPair(server));
+        client.methods.set("fail", () => {
+            throw new ServerError("client failed");
+        });
+        await new Promise(resolve => client.once("connected", resolve));
+    }
+
+    it("should respond with the exact code, message and data", async function () {
+        await connect();
+
+        const error = await client.call("fail", { code: 1234, message: "custom", data: [1, 2] }).catch(e => e);
+        chai.expect(error).instanceOf(RPCError);
+        chai.expect(error).instanceOf(Error);
+        chai.expect(error).to.include({ code: 1234, message: "custom" });
+        chai.expect(error.data).to.deep.equal([1, 2]);
+        chai.expect(error.stack).to.be.a("string");
+    });
+
+    it("should reject with the subclass by the code", async function () {
+        await connect();
+
+        const invalid = await client.call("invalid").catch(e => e);
+        chai.expect(invalid).instanceOf(InvalidParamsError);
+        chai.expect(invalid).to.include({ name: "InvalidParamsError", code: -32602, message: "id is required" });
+        chai.expect(invalid.data).to.deep.equal({ field: "id" });
+
+        chai.expect(await client.call("unknown").catch(e => e)).instanceOf(MethodNotFoundError);
+
+        const [socket] = server.sockets.values();
+        const error = await socket.call("fail").catch(e => e);
+        chai.expect(error).instanceOf(ServerError);
+        chai.expect(error.message).eq("client failed");
+    });
+
+    it("should respond with the message of the other errors without the stack", async function () {
+        await connect();
+
+        const error = await client.call("broken").catch(e => e);
+        chai.expect(error).instanceOf(ServerError);
+        chai.expect(error.message).eq("x is not a function");
+        chai.expect(error.data).is.undefined;
+    });
+
+    it("should respond with InternalError for the thrown values which are not the errors", async function () {
+        await connect();
+
+        for (const value of ["oops", null, 1, { message: "no code" }]) {
+            const error = await client.call("throw", { value }).catch(e => e);
+            chai.expect(error).instanceOf(InternalError);
+            chai.expect(error.code).eq(-32603);
+        }
+
+        const error = await client.call("throw", { value: { code: 1, message: "object" } }).catch(e => e);
+        chai.expect(error).to.include({ code: 1, message: "object" });
+    });
+
+    it("should reject with InternalError for the invalid error object of the response", async function () {
+        await connect();
+
+        for (const invalid of [null, "oops"]) {
+            const error = await client.call("invalidResponse", { error: invalid }).catch(e => e);
+            chai.expect(error).instanceOf(InternalError);
+            chai.expect(error.data).eq(invalid);
+        }
+    });
+
+    it("should map the errors by errorMapper", async function () {
+        await connect({
+            errorMapper: (e, ctx) => {
+                if (e instanceof NotFound) {
+                    return new RPCError(404, e.message, { method: ctx.method });
+                }
+            }
+        });
+
+        const error = await client.call("find").catch(e => e);
+        chai.expect(error).to.include({ code: 404, message: "no such item" });
+        chai.expect(error.data).to.deep.equal({ method: "find" });
+        chai.expect(await client.call("broken").catch(e => e)).instanceOf(ServerError);
+    });
+
+    it("should include the stack in the debug mode", async function () {
+        await connect({ debug: true });
+
+        const broken = await client.call("broken").catch(e => e);
+        chai.expect(broken.data.stack).to.include("TypeError: x is not a function");
+
+        const invalid = await client.call("invalid").catch(e => e);
+        chai.expect(invalid.data.field).eq("id");
+        chai.expect(invalid.data.stack).to.include("InvalidParamsError: id is required");
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
@@ -0,0 +1,115 @@
+const { Client } = require("../");
+const { listen, getUri, sleep } = require("./helpers");
+const WebSocket = require("ws");
+const chai = require("chai");
+
+describe("Heartbeat", function () {
+
+    describe("client-side", function () {
+        let wss;
+        let client;
+
+        it("should reconnect if the server doesn't answer the ping", async function () {
+            wss = new WebSocket.Server({ port: 0 });
+            await new Promise(resolve => wss.once("listening", resolve));
+
+            let connections = 0;
+            wss.on("connection", ws => {
+                // emulates the half-open connection. the ping frames are never read.
+                if (++connections === 1) {
+                    ws._socket.pause();
+                }
+            });
+
+            client = new Client(`ws://localhost:${wss.address().port}/`, {
+                pingInterval: 20,
+                pingTimeout: 50,
+                reconnectionDelay: 10,
+                reconnectionDelayMax: 10
+            });
+            const events = [];
+            client.on("heartbeat_timeout", () => events.push("heartbeat_timeout"));
+            client.on("disconnect", code => events.push(["disconnect", code]));
+
+            await new Promise(resolve => client.once("reconnected", resolve));
+
+            chai.expect(connections).eq(2);
+            chai.expect(events).to.deep.equal(["heartbeat_timeout", ["disconnect", 1006]]);
+            chai.expect(client.isConnected()).is.true;
+        });
+
+        it("should keep the connection while the server answers", async function () {
+            wss = new WebSocket.Server({ port: 0 });
+            await new Promise(resolve => wss.once("listening", resolve));
+
+            client = new Client(`ws://localhost:${wss.address().port}/`, {
+                pingInterval: 20,
+                pingTimeout: 50,
+                reconnection: false
+            });
+            let timeouts = 0;
+            client.on("heartbeat_timeout", () => timeouts++);
+
+            await new Promise(resolve => client.once("connected", resolve));
+            await new Promise(resolve => setTimeout(resolve, 200));
+
+            chai.expect(timeouts).eq(0);
+            chai.expect(client.isConnected()).is.true;
+        });
+
+        this.afterEach(async () => {
+            await client.disconnect();
+            await new Promise(resolve => wss.close(resolve));
+        });
+    });
+
+    describe("server-side", function () {
+        let server;
+        let ws;
+
+        it("should measure the latency and terminate the socket without the pong", async function () {
+            server = await listen({ pingInterval: 20, pingTimeout: 50 });
+
+            const connection = new Promise(resolve => server.once("connection", resolve));
+            ws = new WebSocket(getUri(server));
+            const socket = await connection;
+            chai.expect(socket.latency).is.undefined;
+
+            await sleep(60);
+            chai.expect(socket.latency).to.be.a("number");
+
+            const events = [];
+            socket.on("heartbeat_timeout", () => events.push("socket"));
+            server.on("heartbeat_timeout", s => events.push(s === socket ? "server" : "unknown"));
+            const closed = new Promise(resolve => socket.once("close", resolve));
+
+            // the pong is never sent.
+            ws._socket.pause();
+            const start = Date.now();
+            await closed;
+
+            chai.expect(Date.now() - start).lessThan(200);
+            chai.expect(events).to.have.members(["socket", "server"]);
+            chai.expect(server.sockets.size).eq(0);
+        });
+
+        this.afterEach(async () => {
+            ws.terminate();
+            await server.close();
+        });
+    });
+
+    describe("rpc.ping", function () {
+        it("should be answered before the handshake", async function () {
+            const server = await listen({ handshake: { methods: ["login"] } });
+
+            const client = new Client(getUri(server), { reconnection: false });
+            try {
+                chai.expect(await client.call("rpc.ping")).eq("pong");
+            } finally {
+                await client.disconnect();
+                await server.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,53 @@
+const { Server, Client } = require("../");
+
+/**
+ * Opens the server on a free port.
+ * @param options Options of the server.
+ */
+async function listen(options = {}) {
+    const server = new Server({
+        wss: {
+            port: 0
+        },
+        open: false,
+        ...options
+    });
+    await new Promise(resolve => server.open(resolve));
+    return server;
+}
+
+/**
+ * URI of the server which is opened by `listen()`.
+ */
+function getUri(server) {
+    return `ws://localhost:${server.wss.address().port}/`;
+}
+
+/**
+ * Connects a client to the server and waits for `connected`. (no reconnection by default)
+ * @param server The server which is opened by `listen()`.
+ * @param options Options of the client.
+ */
+async function connect(server, options = {}) {
+    const client = new Client(getUri(server), { reconnection: false, ...options });
+    await new Promise(resolve => client.once("connected", resolve));
+    return client;
+}
+
+/**
+ * Connects a client to the server and waits for the server-side socket.
+ * @param server The server which is opened by `listen()`.
+ * @param options Options of the client.
+ * @returns `[client, socket]`
+ */
+async function connectSocket(server, options = {}) {
+    const connection = new Promise(resolve => server.once("connection", resolve));
+    const client = new Client(getUri(server), { reconnection: false, ...options });
+    return [client, await connection];
+}
+
+function sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+module.exports = { listen, getUri, connect, connectSocket, sleep };
@@ -0,0 +1,84 @@
+const { listen, connect: connectClient } = require("./helpers");
+const chai = require("chai");
+
+describe("Limits", function () {
+    let server;
+    let client;
+
+    async function connect(limits) {
+        server = await listen({ limits });
+        server.methods.set("echo", (socket, params) => params);
+        server.methods.set("upload", () => true);
+
+        client = await connectClient(server);
+    }
+
+    function sendRaw(data) {
+        const response = new Promise(resolve => client.once("error_response", resolve));
+        client.send(JSON.stringify(data));
+        return response;
+    }
+
+    it("should reject the calls over the rate limit with retryAfter", async function () {
+        await connect({ rate: { limit: 2, interval: 1000 } });
+
+        const violations = [];
+        server.on("limit_exceeded", (socket, violation) => violations.push(violation));
+
+        const results = await Promise.all([1, 2, 3].map(n => client.call("echo", { n }).catch(e => e)));
+
+        chai.expect(results.slice(0, 2)).to.deep.equal([{ n: 1 }, { n: 2 }]);
+        chai.expect(results[2].code).eq(-32005);
+        chai.expect(results[2].data.limit).eq("rate");
+        chai.expect(results[2].data.retryAfter).within(1, 1000);
+        chai.expect(violations).to.have.lengthOf(1);
+    });
+
+    it("should apply the rate limit to the built-in methods", async function () {
+        await connect({ rate: { limit: 2, interval: 1000 } });
+
+        const results = await Promise.all([1, 2, 3].map(() => client.call("rpc.ping").catch(e => e)));
+
+        chai.expect(results.slice(0, 2)).to.deep.equal(["pong", "pong"]);
+        chai.expect(results[2].code).eq(-32005);
+    });
+
+    it("should limit the rate by the method", async function () {
+        await connect({ methods: { upload: { limit: 1, interval: 60000 } } });
+
+        chai.expect(await client.call("upload")).is.true;
+        const error = await client.call("upload").catch(e => e);
+        chai.expect(error.code).eq(-32005);
+        chai.expect(error.data.method).eq("upload");
+
+        chai.expect(await client.call("echo", { n: 1 })).to.deep.equal({ n: 1 });
+    });
+
+    it("should reject the message over the size, batch length and depth limits", async function () {
+        await connect({ maxPayload: 256, maxBatchLength: 2, maxDepth: 4 });
+
+        let res = await sendRaw({ jsonrpc: "2.0", method: "echo", params: { s: "x".repeat(256) }, id: 1 });
+        chai.expect(res.error.data).to.deep.equal({ limit: "maxPayload" });
+
+        res = await sendRaw([1, 2, 3].map(id => ({ jsonrpc: "2.0", method: "echo", id })));
+        chai.expect(res.error.data).to.deep.equal({ limit: "maxBatchLength" });
+
+        res = await sendRaw({ jsonrpc: "2.0", method: "echo", params: { a: { b: { c: { d: 1 } } } }, id: 1 });
+        chai.expect(res.error.data).to.deep.equal({ limit: "maxDepth" });
+        chai.expect(res.id).is.null;
+    });
+
+    it("should close the connection by the close action", async function () {
+        await connect({ maxBatchLength: 1, action: "close" });
+
+        const closing = new Promise(resolve => client.once("disconnect", resolve));
+        client.batch().notify("echo").notify("echo").send();
+
+        chai.expect(await closing).eq(1008);
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
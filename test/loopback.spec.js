@@ -0,0 +1,100 @@
+const { Server, createLoopbackPair } = require("../");
+const chai = require("chai");
+
+describe("Loopback", function () {
+    let server;
+    let client;
+    let link;
+
+    async function connect(options = {}, serverOptions = {}) {
+        server = new Server(serverOptions);
+        server.methods.set("echo", (socket, params) => params);
+        server.methods.set("whoami", async socket => ({ id: socket.id, name: await socket.call("getName") }));
+
+        ({ client, link } = createLoopbackPair(server, options));
+        client.methods.set("getName", () => "alice");
+        await new Promise(resolve => client.once("connected", resolve));
+    }
+
+    it("should call the methods in both directions without the network", async function () {
+        await connect();
+
+        chai.expect(link.connected).is.true;
+        chai.expect(await client.call("echo", { n: 1 })).to.deep.equal({ n: 1 });
+        chai.expect((await client.call("whoami")).name).eq("alice");
+        chai.expect(server.sockets.size).eq(1);
+    });
+
+    it("should delay the frames by the latency", async function () {
+        await connect({ latency: 50 });
+
+        const start = Date.now();
+        await client.call("echo");
+        chai.expect(Date.now() - start).within(90, 500);
+    });
+
+    it("should drop the frames", async function () {
+        await connect({ client: { methodCallTimeout: 100 } });
+
+        link.drop(1, "toServer");
+        const error = await client.call("echo", { n: 1 }).catch(e => e);
+        chai.expect(error.message).eq("JSON-RPC: method call timeout");
+        chai.expect(await client.call("echo", { n: 2 })).to.deep.equal({ n: 2 });
+    });
+
+    it("should drop the frames by the rate with the random function", async function () {
+        const randoms = [0.9, 0.1, 0.9, 0.9];
+        await connect({ dropRate: 0.5, client: { methodCallTimeout: 100 } });
+        link._random = () => randoms.shift();
+
+        const results = await Promise.all([1, 2].map(n => client.call("echo", { n }).catch(e => e.message)));
+        chai.expect(results).to.deep.equal([{ n: 1 }, "JSON-RPC: method call timeout"]);
+    });
+
+    it("should reorder the held frames", async function () {
+        await connect();
+
+        const order = [];
+        server.methods.set("log", (socket, params) => void order.push(params.n));
+
+        link.pause();
+        await Promise.all([1, 2, 3].map(n => client.notify("log", { n })));
+        link.resume(frames => frames.reverse());
+        await client.call("echo");
+
+        chai.expect(order).to.deep.equal([3, 2, 1]);
+    });
+
+    it("should reconnect after the simulated disconnect", async function () {
+        await connect({ client: { reconnectionDelay: 10, reconnectionDelayMax: 10 } });
+
+        const disconnected = new Promise(resolve => client.once("disconnect", resolve));
+        link.online = false;
+        link.disconnect();
+        chai.expect(await disconnected).eq(1006);
+        chai.expect(link.connected).is.false;
+        chai.expect(server.sockets.size).eq(0);
+
+        // refused while offline
+        await new Promise(resolve => setTimeout(resolve, 50));
+        chai.expect(link.connected).is.false;
+
+        link.online = true;
+        await new Promise(resolve => client.once("connected", resolve));
+        chai.expect(await client.call("echo", { n: 1 })).to.deep.equal({ n: 1 });
+    });
+
+    it("should resume the session over the link", async function () {
+        await connect({}, { session: {} });
+        const sessionId = await new Promise(resolve => client.once("session", resolve));
+
+        const resumed = new Promise(resolve => client.once("session", (id, isResumed) => resolve([id, isResumed])));
+        link.disconnect();
+        chai.expect(await resumed).to.deep.equal([sessionId, true]);
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
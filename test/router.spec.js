@@ -0,0 +1,99 @@
+const { Router, Client, AuthenticationError } = require("../");
+const http = require("http");
+const chai = require("chai");
+
+describe("Router", function () {
+    let httpServer;
+    let router;
+    let admin;
+    let pub;
+    let clients = [];
+
+    async function listen() {
+        httpServer = http.createServer();
+        router = new Router(httpServer);
+
+        admin = router.route("/admin", {
+            authenticate: req => {
+                if (req.headers["x-token"] !== "secret") {
+                    throw new AuthenticationError(403, "Forbidden");
+                }
+                return { role: "admin" };
+            }
+        });
+        admin.methods.set("whoami", socket => socket.data.get("role"));
+
+        pub = router.route("/public");
+        pub.methods.set("hello", () => "world");
+
+        await new Promise(resolve => httpServer.listen(0, resolve));
+        return `ws://localhost:${httpServer.address().port}`;
+    }
+
+    async function connect(uri, options = {}) {
+        const client = new Client(uri, { reconnection: false, autoConnect: false, ...options });
+        client.on("error", () => void 0);
+        clients.push(client);
+        await client.connect();
+        return client;
+    }
+
+    it("should route the connections by the path to the namespaces", async function () {
+        const base = await listen();
+
+        const adminClient = await connect(`${base}/admin`, { headers: { "x-token": "secret" } });
+        const publicClient = await connect(`${base}/public?v=1`);
+
+        chai.expect(await adminClient.call("whoami")).eq("admin");
+        chai.expect(await publicClient.call("hello")).eq("world");
+        chai.expect((await publicClient.call("whoami").catch(e => e)).code).eq(-32601);
+        chai.expect((await adminClient.call("hello").catch(e => e)).code).eq(-32601);
+
+        chai.expect(admin.sockets.size).eq(1);
+        chai.expect(pub.sockets.size).eq(1);
+    });
+
+    it("should reject by the hook of the namespace and the unknown path", async function () {
+        const base = await listen();
+
+        const forbidden = await connect(`${base}/admin`).catch(e => e);
+        chai.expect(forbidden.message).include("403");
+
+        const notFound = await connect(`${base}/unknown`).catch(e => e);
+        chai.expect(notFound.message).include("404");
+
+        chai.expect(admin.sockets.size).eq(0);
+    });
+
+    it("should route by the subprotocol", async function () {
+        const base = await listen();
+        const v2 = router.route({ protocol: "v2" });
+        v2.methods.set("version", () => 2);
+
+        const client = await connect(`${base}/`, { protocols: ["v2"] });
+        chai.expect(await client.call("version")).eq(2);
+        chai.expect(v2.sockets.size).eq(1);
+    });
+
+    it("should close all the namespaces", async function () {
+        const base = await listen();
+        const client = await connect(`${base}/public`);
+        const disconnected = new Promise(resolve => client.once("disconnect", resolve));
+
+        await router.close({ gracePeriod: 1000 });
+
+        chai.expect(await disconnected).eq(1001);
+        chai.expect(admin.isOpen()).is.false;
+        chai.expect(pub.isOpen()).is.false;
+        chai.expect(httpServer.listenerCount("upgrade")).eq(0);
+    });
+
+    this.afterEach(async () => {
+        for (const client of clients) {
+            await client.disconnect();
+        }
+        clients = [];
+        await router.close();
+        await new Promise(resolve => httpServer.close(resolve));
+    });
+});
@@ -0,0 +1,98 @@
+const { listen, connectSocket, sleep } = require("./helpers");
+const chai = require("chai");
+
+describe("Session", function () {
+    let server;
+    let client;
+
+    async function connect(options) {
+        let socket;
+        [client, socket] = await connectSocket(server, options);
+        const resumed = await new Promise(resolve => client.once("session", (id, isResumed) => resolve(isResumed)));
+        chai.expect(resumed).is.false;
+        return socket;
+    }
+
+    it("should resume the socket with the rooms, data and missed notifications", async function () {
+        server = await listen({ session: { gracePeriod: 1000 } });
+        const socket = await connect({ reconnection: true, reconnectionDelay: 10, reconnectionDelayMax: 10 });
+
+        socket.joinTo("room");
+        socket.data.set("user", "alice");
+        chai.expect(client.sessionId).eq(socket.id);
+
+        const received = [];
+        client.methods.set("tick", (c, params) => received.push(params.n));
+        const connections = [];
+        server.on("connection", s => connections.push(s));
+        const resumption = new Promise(resolve => server.once("resume", resolve));
+
+        // sent while the connection is lost.
+        socket.once("suspend", () => server.notifyTo("room", "tick", { n: 1 }));
+        const session = new Promise(resolve => client.once("session", (id, resumed) => resolve([id, resumed])));
+        socket.terminate();
+
+        chai.expect(await session).to.deep.equal([socket.id, true]);
+        chai.expect(await resumption).eq(socket);
+        await sleep(20);
+
+        chai.expect(received).to.deep.equal([1]);
+        chai.expect(connections).to.deep.equal([]);
+        chai.expect(server.sockets.size).eq(1);
+        chai.expect(socket.isOpen()).is.true;
+        chai.expect(socket.data.get("user")).eq("alice");
+        chai.expect(Array.from(server.in("room").keys())).to.deep.equal([socket.id]);
+    });
+
+    it("should remove the socket after the grace period", async function () {
+        server = await listen({ session: { gracePeriod: 50 } });
+        const socket = await connect();
+        socket.joinTo("room");
+
+        const closed = new Promise(resolve => socket.once("close", resolve));
+        socket.terminate();
+        await sleep(20);
+
+        chai.expect(socket.suspended).is.true;
+        chai.expect(server.roomSize("room")).eq(1);
+
+        await closed;
+        chai.expect(server.sockets.size).eq(0);
+        chai.expect(server.rooms()).to.deep.equal([]);
+    });
+
+    it("should end the suspended session by close() and terminate()", async function () {
+        server = await listen({ session: { gracePeriod: 1000 } });
+
+        for (const close of [socket => socket.close(), socket => socket.terminate()]) {
+            const socket = await connect();
+            const suspended = new Promise(resolve => socket.once("suspend", resolve));
+            const closed = new Promise(resolve => socket.once("close", resolve));
+            socket.terminate();
+            await suspended;
+            chai.expect(server.sockets.get(socket.id)).eq(socket);
+
+            close(socket);
+            await closed;
+            chai.expect(server.sockets.size).eq(0);
+            await client.disconnect();
+        }
+    });
+
+    it("should not keep the session which is closed by the client", async function () {
+        server = await listen({ session: { gracePeriod: 1000 } });
+        const socket = await connect();
+
+        const closed = new Promise(resolve => socket.once("close", resolve));
+        await client.disconnect();
+        await closed;
+
+        chai.expect(socket.suspended).is.false;
+        chai.expect(server.sockets.size).eq(0);
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
@@ -0,0 +1,72 @@
+const { Server, ShuttingDownError, createLoopbackPair } = require("../");
+const { listen, connect: connectClient, sleep } = require("./helpers");
+const chai = require("chai");
+
+describe("Graceful shutdown", function () {
+    let server;
+    let client;
+
+    async function connect() {
+        server = await listen();
+        server.methods.set("echo", (socket, params) => params);
+        server.methods.set("slow", () => new Promise(resolve => setTimeout(() => resolve("done"), 100)));
+        server.methods.set("hang", () => new Promise(() => void 0));
+
+        client = await connectClient(server);
+    }
+
+    it("should respond to the calls in process and reject the new calls before closing with 1001", async function () {
+        await connect();
+
+        const events = [];
+        client.on("shutdown", () => events.push("shutdown"));
+        const disconnected = new Promise(resolve => client.once("disconnect", code => resolve(code)));
+
+        const slow = client.call("slow");
+        await sleep(20);
+        const closing = server.close({ gracePeriod: 5000 });
+
+        const rejected = await client.call("echo").catch(e => e);
+        chai.expect(rejected).instanceOf(ShuttingDownError);
+        chai.expect(rejected.code).eq(-32006);
+
+        chai.expect(await slow).eq("done");
+        chai.expect(await disconnected).eq(1001);
+        chai.expect(events).to.deep.equal(["shutdown"]);
+        await closing;
+    });
+
+    it("should terminate the remaining sockets after the grace period", async function () {
+        await connect();
+
+        const hanging = client.call("hang").catch(e => e);
+        await sleep(20);
+
+        const start = Date.now();
+        await server.close({ gracePeriod: 100 });
+        chai.expect(Date.now() - start).within(90, 1000);
+        chai.expect((await hanging).name).eq("ConnectionClosedError");
+    });
+
+    it("should reject the new connections while shutting down", async function () {
+        server = new Server({});
+        server.methods.set("hang", () => new Promise(() => void 0));
+        let link;
+        ({ client, link } = createLoopbackPair(server, { client: { reconnection: false } }));
+        await new Promise(resolve => client.once("connected", resolve));
+        client.call("hang").catch(() => void 0);
+        await sleep(10);
+
+        const closing = server.close({ gracePeriod: 50 });
+        const transport = link.connect();
+        const code = await new Promise(resolve => transport.once("close", resolve));
+        chai.expect(code).eq(1001);
+        chai.expect(server.sockets.size).eq(1);
+        await closing;
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
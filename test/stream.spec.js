@@ -0,0 +1,116 @@
+const { listen, connect, sleep } = require("./helpers");
+const chai = require("chai");
+
+describe("Streaming", function () {
+    let server;
+    let client;
+
+    this.beforeAll(async () => {
+        server = await listen();
+        client = await connect(server);
+    });
+
+    async function collect(stream) {
+        const chunks = [];
+        for await (const chunk of stream) {
+            chunks.push(chunk);
+        }
+        return chunks;
+    }
+
+    it("should deliver the chunks of the async iterable", async function () {
+        server.methods.set("count", async function* (socket, params) {
+            for (let i = 1; i <= params.to; i++) {
+                yield i;
+            }
+        });
+
+        chai.expect(await collect(client.stream("count", { to: 3 }))).to.deep.equal([1, 2, 3]);
+    });
+
+    it("should deliver the progress reported by the method", async function () {
+        server.methods.set("job", async (socket, params, ctx) => {
+            ctx.progress({ percent: 50 });
+            ctx.progress({ percent: 100 });
+            return "done";
+        });
+
+        chai.expect(await collect(client.stream("job"))).to.deep.equal([{ percent: 50 }, { percent: 100 }]);
+    });
+
+    it("should throw the error after the chunks received before it", async function () {
+        server.methods.set("broken", async function* () {
+            yield 1;
+            throw new Error("broken pipe");
+        });
+
+        const chunks = [];
+        try {
+            for await (const chunk of client.stream("broken")) {
+                chunks.push(chunk);
+            }
+            chai.assert.fail();
+        } catch (e) {
+            chai.expect(e).has.property("code", -32000);
+            chai.expect(e).has.property("message", "broken pipe");
+        }
+        chai.expect(chunks).to.deep.equal([1]);
+    });
+
+    it("should cancel the request when the iteration is stopped", async function () {
+        let closed;
+        const closing = new Promise(resolve => closed = resolve);
+        server.methods.set("infinite", async function* () {
+            try {
+                for (let i = 0; ; i++) {
+                    yield i;
+                    await sleep(1);
+                }
+            } finally {
+                closed();
+            }
+        });
+
+        const chunks = [];
+        for await (const chunk of client.stream("infinite")) {
+            chunks.push(chunk);
+            if (chunks.length === 2) {
+                break;
+            }
+        }
+
+        await closing;
+        chai.expect(chunks).to.deep.equal([0, 1]);
+    });
+
+    it("should fail if the unconsumed chunks exceed maxBufferedChunks", async function () {
+        server.methods.set("flood", async function* () {
+            for (let i = 0; i < 10; i++) {
+                yield i;
+            }
+        });
+
+        const stream = client.stream("flood", {}, { maxBufferedChunks: 2 });
+        await sleep(50);
+
+        const chunks = [];
+        try {
+            for await (const chunk of stream) {
+                chunks.push(chunk);
+            }
+            chai.assert.fail();
+        } catch (e) {
+            chai.expect(e).has.property("message", "JSON-RPC: stream buffer overflow");
+        }
+        chai.expect(chunks).to.deep.equal([0, 1]);
+    });
+
+    this.afterEach(() => {
+        server.methods.clear();
+    });
+
+    this.afterAll(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
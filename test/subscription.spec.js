@@ -0,0 +1,78 @@
+const { listen, connect, sleep } = require("./helpers");
+const chai = require("chai");
+
+describe("Subscription", function () {
+    let server;
+    let client;
+
+    it("should deliver the published events to the subscribers", async function () {
+        server = await listen();
+        server.event("tick");
+        client = await connect(server);
+
+        const received = [];
+        await client.subscribe("tick", payload => received.push(payload));
+
+        server.publish("tick", { n: 1 });
+        await sleep(20);
+        chai.expect(received).to.deep.equal([{ n: 1 }]);
+
+        await client.unsubscribe("tick");
+        server.publish("tick", { n: 2 });
+        await sleep(20);
+        chai.expect(received).to.deep.equal([{ n: 1 }]);
+    });
+
+    it("should reject the subscription of undeclared or unauthorized events", async function () {
+        server = await listen();
+        server.event("secret", { authorize: socket => socket.data.get("admin") === true });
+        client = await connect(server);
+
+        try {
+            await client.subscribe("unknown", () => void 0);
+            chai.assert.fail();
+        } catch (e) {
+            chai.expect(e).has.property("message").include("not found");
+        }
+
+        try {
+            await client.subscribe("secret", () => void 0);
+            chai.assert.fail();
+        } catch (e) {
+            chai.expect(e).has.property("message").include("unauthorized");
+        }
+
+        chai.expect(await client.call("rpc.on", { event: "secret" }).catch(e => e)).has.property("code", -32602);
+        chai.expect(() => server.publish("unknown", {})).to.throw(Error);
+        for (const payload of [42, "text", null]) {
+            chai.expect(() => server.publish("secret", payload)).to.throw(TypeError);
+        }
+    });
+
+    it("should re-establish the subscriptions after reconnected", async function () {
+        server = await listen();
+        server.event("tick");
+        client = await connect(server, { reconnection: true, reconnectionDelay: 10 });
+
+        const received = [];
+        await client.subscribe("tick", payload => received.push(payload));
+
+        const connection = new Promise(resolve => server.once("connection", resolve));
+        for (const socket of server.sockets.values()) {
+            socket.terminate();
+        }
+        const socket = await connection;
+        while (socket.rooms.size === 0) {
+            await sleep(5);
+        }
+
+        server.publish("tick", { n: 1 });
+        await sleep(20);
+        chai.expect(received).to.deep.equal([{ n: 1 }]);
+    });
+
+    this.afterEach(async () => {
+        await client.disconnect();
+        await server.close();
+    });
+});
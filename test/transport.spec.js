@@ -0,0 +1,138 @@
+const { Server, Client, StreamTransport, MessagePortTransport, HTTPTransport, MessagePackCodec } = require("../");
+const { PassThrough } = require("stream");
+const { MessageChannel } = require("worker_threads");
+const http = require("http");
+const chai = require("chai");
+
+describe("Transport", function () {
+    let server;
+    let client;
+
+    function createServer(options = {}) {
+        server = new Server(options);
+        server.methods.set("add", (socket, params) => params.a + params.b);
+        server.methods.set("whoami", async socket => {
+            return { id: socket.id, name: await socket.call("getName") };
+        });
+        return server;
+    }
+
+    describe("StreamTransport", function () {
+        it("should call the methods in both directions over the newline-delimited streams", async function () {
+            createServer();
+            const up = new PassThrough();
+            const down = new PassThrough();
+
+            const connection = new Promise(resolve => server.once("connection", resolve));
+            server.accept(new StreamTransport(up, down));
+
+            client = new Client("stdio:", {
+                transport: () => new StreamTransport(down, up),
+                reconnection: false
+            });
+            client.methods.set("getName", () => "alice");
+            const socket = await connection;
+
+            chai.expect(await client.call("add", { a: 1, b: 2 })).eq(3);
+            chai.expect(await client.call("whoami")).to.deep.equal({ id: socket.id, name: "alice" });
+
+            const closed = new Promise(resolve => socket.once("close", resolve));
+            await client.disconnect();
+            await closed;
+            chai.expect(server.sockets.size).eq(0);
+        });
+    });
+
+    describe("MessagePortTransport", function () {
+        it("should call the methods over the MessagePort with the binary codec", async function () {
+            createServer({ codec: MessagePackCodec });
+            const { port1, port2 } = new MessageChannel();
+
+            server.accept(new MessagePortTransport(port1));
+
+            client = new Client("worker:", {
+                transport: () => new MessagePortTransport(port2),
+                codec: MessagePackCodec,
+                reconnection: false
+            });
+            client.methods.set("getName", () => "bob");
+
+            chai.expect(await client.call("add", { a: 2, b: 3 })).eq(5);
+            chai.expect((await client.call("whoami")).name).eq("bob");
+        });
+    });
+
+    describe("HTTP", function () {
+        let httpServer;
+
+        async function listen(options) {
+            createServer(options);
+            httpServer = http.createServer((req, res) => server.handleHTTP(req, res));
+            await new Promise(resolve => httpServer.listen(0, resolve));
+            return `http://localhost:${httpServer.address().port}/`;
+        }
+
+        function post(url, body) {
+            return new Promise((resolve, reject) => {
+                const req = http.request(url, { method: body === undefined ? "GET" : "POST" }, res => {
+                    let data = "";
+                    res.on("data", chunk => data += chunk);
+                    res.on("end", () => resolve([res.statusCode, data]));
+                });
+                req.on("error", reject);
+                req.end(body);
+            });
+        }
+
+        it("should respond to the request and the batch", async function () {
+            const url = await listen();
+
+            client = new Client(url, {
+                transport: uri => new HTTPTransport(uri),
+                reconnection: false,
+                pingInterval: 0
+            });
+
+            chai.expect(await client.call("add", { a: 1, b: 2 })).eq(3);
+
+            const batch = client.batch();
+            batch.call("add", { a: 1, b: 1 });
+            batch.call("unknown");
+            const results = await batch.send();
+            chai.expect(results[0]).to.deep.equal({ status: "fulfilled", value: 2 });
+            chai.expect(results[1].reason.code).eq(-32601);
+        });
+
+        it("should respond with the status of HTTP", async function () {
+            const url = await listen({ limits: { maxPayload: 64 } });
+
+            chai.expect(await post(url)).to.deep.equal([405, ""]);
+            chai.expect(await post(url, JSON.stringify({ jsonrpc: "2.0", method: "add", params: { a: 1, b: 2 } }))).to.deep.equal([204, ""]);
+            chai.expect((await post(url, JSON.stringify({ jsonrpc: "2.0", method: "add", params: { a: "x".repeat(64) }, id: 1 })))[0]).eq(413);
+        });
+
+        it("should respond with Invalid Request to the null calls", async function () {
+            const url = await listen();
+
+            const [status, body] = await post(url, "null");
+            chai.expect(status).eq(200);
+            chai.expect(JSON.parse(body)).to.deep.equal({ jsonrpc: "2.0", error: { code: -32600, message: "Invalid Request" }, id: null });
+
+            const [batchStatus, batchBody] = await post(url, "[null]");
+            chai.expect(batchStatus).eq(200);
+            chai.expect(JSON.parse(batchBody)).to.deep.equal([{ jsonrpc: "2.0", error: { code: -32600, message: "Invalid Request" }, id: null }]);
+        });
+
+        this.afterEach(async () => {
+            await new Promise(resolve => httpServer.close(resolve));
+        });
+    });
+
+    this.afterEach(async () => {
+        if (client) {
+            await client.disconnect();
+            client = null;
+        }
+        await server.close();
+    });
+});